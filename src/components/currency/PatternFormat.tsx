@@ -18,6 +18,9 @@ export interface PatternFormatProps
     | "allowEmptyFormatting"
     | "allowedDecimalSeparators"
     | "isNumericString"
+    | "currency"
+    | "currencyDisplay"
+    | "locale"
   > {
   /** Pattern string using # as digit placeholder (e.g., "+1 (###) ###-####") */
   format: string;
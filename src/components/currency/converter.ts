@@ -0,0 +1,359 @@
+import {
+  DecimalInput,
+  RoundingMode,
+  decimalToNumber,
+  divideDecimal,
+  multiplyDecimal,
+  normalizeDecimal,
+  roundDecimal,
+  toDecimalString,
+} from "./decimal";
+import {
+  FormatCurrencyOptions,
+  applyRoundingIncrement,
+  formatCurrency,
+  resolveFractionDigits,
+} from "./utils";
+import { getCurrencyConfig, getCurrencySuccession } from "./locales";
+
+// Types
+/** Price of one unit of `from` in `to` */
+export interface RateQuote {
+  from: string;
+  to: string;
+  /** Exchange rate as a decimal string */
+  rate: string;
+  /** When the rate was published (ms since epoch) */
+  timestamp?: number;
+}
+
+/**
+ * Source of exchange rates. `getRate` may be sync or async and returns
+ * undefined when it has no rate for the pair.
+ */
+export interface RateProvider {
+  /** Currency all rates are quoted against; used for cross rates */
+  baseCurrency?: string;
+  getRate(
+    from: string,
+    to: string
+  ): RateQuote | undefined | Promise<RateQuote | undefined>;
+}
+
+export interface StaticRateTable {
+  /** Currency the rates are quoted against */
+  base: string;
+  /** Units of each currency per one unit of `base`: { EUR: 0.92, VND: 25000 } */
+  rates: Record<string, DecimalInput>;
+  /** When the table was published (Date or ms since epoch) */
+  timestamp?: Date | number;
+}
+
+export interface ConverterOptions {
+  rateProvider: RateProvider;
+  /** Currency to triangulate through when no direct rate exists (default: provider's, then "USD") */
+  baseCurrency?: string;
+  /** Reject rates older than this many milliseconds */
+  maxAge?: number;
+}
+
+export interface ConvertOptions extends FormatCurrencyOptions {
+  /** Locale used for currencies missing from currencyDatabase */
+  locale?: string;
+}
+
+export interface ConvertLegacyOptions extends ConvertOptions {
+  /** Successor to stop at (default: the current currency at the end of the chain) */
+  to?: string;
+}
+
+export interface ConversionResult {
+  /**
+   * Converted amount rounded as formattedValue shows it: fraction digits
+   * and roundingIncrement (significant digits only shape formattedValue)
+   */
+  value: string;
+  floatValue: number;
+  /** Formatted with getCurrencyConfig of the target currency */
+  formattedValue: string;
+  from: string;
+  to: string;
+  /** Rate applied (direct or cross) */
+  rate: string;
+  /** Oldest timestamp of the rates used */
+  timestamp?: number;
+}
+
+export interface Converter {
+  /** Rate for one unit of `from` in `to`, triangulated via the base currency if needed */
+  getRate(from: string, to: string): Promise<RateQuote>;
+  convert(
+    amount: DecimalInput,
+    from: string,
+    to: string,
+    options?: ConvertOptions
+  ): Promise<ConversionResult>;
+}
+
+/** Digits kept for inverse and cross rates */
+const RATE_SCALE = 12;
+
+const toTimestamp = (value?: Date | number): number | undefined => {
+  return value instanceof Date ? value.getTime() : value;
+};
+
+const oldest = (a?: number, b?: number): number | undefined => {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.min(a, b);
+};
+
+/** Fraction digits formatCurrency shows for `config` (2 when unlimited) */
+const getResultScale = (config: FormatCurrencyOptions): number =>
+  resolveFractionDigits(config).maximum ?? 2;
+
+/**
+ * Round a converted amount the way formatCurrency rounds it: to the
+ * rounding increment, then to the shown fraction digits
+ */
+const roundResult = (value: string, config: FormatCurrencyOptions): string => {
+  const roundingMode: RoundingMode = config.roundingMode || "halfUp";
+  return roundDecimal(
+    applyRoundingIncrement(value, config.roundingIncrement, roundingMode),
+    getResultScale(config),
+    roundingMode
+  );
+};
+
+/**
+ * In-memory rate provider from a table quoted against one base currency.
+ * Inverse rates (X → base) and rates between two table currencies are
+ * derived from the table.
+ *
+ * @example
+ * const provider = createStaticRateProvider({
+ *   base: "USD",
+ *   rates: { EUR: "0.92", VND: 25000 },
+ *   timestamp: Date.now(),
+ * });
+ */
+export const createStaticRateProvider = (
+  table: StaticRateTable
+): RateProvider => {
+  const base = table.base.toUpperCase();
+  const timestamp = toTimestamp(table.timestamp);
+  const rates: Record<string, string> = { [base]: "1" };
+
+  Object.keys(table.rates).forEach((code) => {
+    const rate = toDecimalString(table.rates[code]);
+    if (rate === "" || !/[1-9]/.test(rate) || rate[0] === "-") {
+      throw new Error(`Invalid rate for ${code}: "${String(table.rates[code])}"`);
+    }
+    rates[code.toUpperCase()] = rate;
+  });
+
+  return {
+    baseCurrency: base,
+    getRate: (from, to) => {
+      const fromRate = rates[from];
+      const toRate = rates[to];
+      if (!fromRate || !toRate) return undefined;
+
+      const rate =
+        from === base
+          ? toRate
+          : normalizeDecimal(divideDecimal(toRate, fromRate, RATE_SCALE));
+      return { from, to, rate, timestamp };
+    },
+  };
+};
+
+/**
+ * Create a currency converter on top of a rate provider
+ * Missing pairs are triangulated through the base currency
+ * (EUR → JPY = EUR → USD × USD → JPY) and results are formatted with the
+ * target currency's getCurrencyConfig.
+ *
+ * @example
+ * const converter = createConverter({
+ *   rateProvider: createStaticRateProvider({ base: "USD", rates: { EUR: 0.92, JPY: 150 } }),
+ * });
+ *
+ * await converter.convert(100, "USD", "EUR");
+ * // Output: { value: "92.00", formattedValue: "92.00 €", rate: "0.92", ... }
+ *
+ * // Custom async provider
+ * const converter = createConverter({
+ *   rateProvider: {
+ *     getRate: async (from, to) => {
+ *       const res = await fetch(`/api/rates/${from}/${to}`);
+ *       const { rate, updatedAt } = await res.json();
+ *       return { from, to, rate, timestamp: updatedAt };
+ *     },
+ *   },
+ * });
+ */
+export const createConverter = (options: ConverterOptions): Converter => {
+  const { rateProvider, maxAge } = options;
+  const baseCurrency = (
+    options.baseCurrency ||
+    rateProvider.baseCurrency ||
+    "USD"
+  ).toUpperCase();
+
+  const isFresh = (quote: RateQuote): boolean => {
+    return (
+      maxAge === undefined ||
+      quote.timestamp === undefined ||
+      Date.now() - quote.timestamp <= maxAge
+    );
+  };
+
+  const fetchRate = async (from: string, to: string): Promise<RateQuote | undefined> => {
+    const quote = await rateProvider.getRate(from, to);
+    if (!quote) return undefined;
+
+    const rate = toDecimalString(quote.rate);
+    if (rate === "") {
+      throw new Error(`Invalid rate for ${from} → ${to}: "${String(quote.rate)}"`);
+    }
+    return { ...quote, from, to, rate };
+  };
+
+  const getRate = async (fromCode: string, toCode: string): Promise<RateQuote> => {
+    const from = fromCode.toUpperCase();
+    const to = toCode.toUpperCase();
+
+    if (from === to) {
+      return { from, to, rate: "1" };
+    }
+
+    const direct = await fetchRate(from, to);
+    if (direct && isFresh(direct)) {
+      return direct;
+    }
+
+    // Cross rate via the base currency
+    if (from !== baseCurrency && to !== baseCurrency) {
+      const [first, second] = await Promise.all([
+        fetchRate(from, baseCurrency),
+        fetchRate(baseCurrency, to),
+      ]);
+      if (first && second && isFresh(first) && isFresh(second)) {
+        return {
+          from,
+          to,
+          rate: normalizeDecimal(
+            roundDecimal(multiplyDecimal(first.rate, second.rate), RATE_SCALE)
+          ),
+          timestamp: oldest(first.timestamp, second.timestamp),
+        };
+      }
+    }
+
+    throw new Error(
+      direct
+        ? `Exchange rate for ${from} → ${to} is older than ${maxAge}ms`
+        : `No exchange rate for ${from} → ${to}`
+    );
+  };
+
+  const convert = async (
+    amount: DecimalInput,
+    fromCode: string,
+    toCode: string,
+    convertOptions: ConvertOptions = {}
+  ): Promise<ConversionResult> => {
+    const { locale, ...formatOptions } = convertOptions;
+    const amountStr = toDecimalString(amount);
+
+    if (amountStr === "") {
+      throw new Error(`Invalid amount "${String(amount)}"`);
+    }
+
+    const quote = await getRate(fromCode, toCode);
+    const config: FormatCurrencyOptions = {
+      ...getCurrencyConfig(quote.to, { locale }),
+      ...formatOptions,
+    };
+    const value = roundResult(multiplyDecimal(amountStr, quote.rate), config);
+
+    return {
+      value,
+      floatValue: decimalToNumber(value),
+      formattedValue: formatCurrency(value, config),
+      from: quote.from,
+      to: quote.to,
+      rate: quote.rate,
+      timestamp: quote.timestamp,
+    };
+  };
+
+  return { getRate, convert };
+};
+
+/**
+ * Convert an amount in a retired currency to its successor at the fixed
+ * changeover rate. Chains of redenominations are followed and the result is
+ * rounded once, to the successor's digits.
+ *
+ * @example
+ * convertLegacyAmount(1000, "HRK");
+ * // Output: { value: "132.72", formattedValue: "132.72 €", from: "HRK", to: "EUR", ... }
+ *
+ * convertLegacyAmount("250000000", "VEF");
+ * // Output: { value: "2500.00", formattedValue: "Bs.S2,500.00", to: "VES", ... }
+ *
+ * convertLegacyAmount(100, "EUR"); // throws: EUR has no successor currency
+ */
+export const convertLegacyAmount = (
+  amount: DecimalInput,
+  fromCode: string,
+  options: ConvertLegacyOptions = {}
+): ConversionResult => {
+  const { to: toCode, locale, ...formatOptions } = options;
+  const amountStr = toDecimalString(amount);
+
+  if (amountStr === "") {
+    throw new Error(`Invalid amount "${String(amount)}"`);
+  }
+
+  const from = fromCode.toUpperCase();
+  const target = toCode?.toUpperCase();
+  // Units of `from` per one unit of the currency reached so far
+  let divisor = "1";
+  let to = from;
+
+  while (to !== target) {
+    const succession = getCurrencySuccession(to);
+    if (!succession) break;
+    divisor = multiplyDecimal(divisor, succession.rate);
+    to = succession.to;
+  }
+
+  if (to === from) {
+    throw new Error(`${from} has no successor currency`);
+  }
+  if (target && to !== target) {
+    throw new Error(`${target} did not succeed ${from}`);
+  }
+
+  const config: FormatCurrencyOptions = {
+    ...getCurrencyConfig(to, { locale }),
+    ...formatOptions,
+  };
+  // Divide by the official rate (never multiply by its inverse), keeping the zeros
+  const value = roundResult(
+    divideDecimal(amountStr, divisor, getResultScale(config), config.roundingMode || "halfUp"),
+    config
+  );
+
+  return {
+    value,
+    floatValue: decimalToNumber(value),
+    formattedValue: formatCurrency(value, config),
+    from,
+    to,
+    rate: normalizeDecimal(divideDecimal("1", divisor, RATE_SCALE)),
+  };
+};
@@ -0,0 +1,342 @@
+/**
+ * Arbitrary-precision decimal helpers shared by the formatting utilities.
+ * Values are carried around as plain decimal strings ("-1234.5678") and all
+ * arithmetic goes through BigInt, so nothing is ever squeezed through a
+ * 64-bit float.
+ */
+
+// Types
+/** Anything exposing a numeric `toString()` (decimal.js, big.js, bignumber.js, ...) */
+export interface DecimalLike {
+  toString(): string;
+}
+
+export type DecimalInput = string | number | bigint | DecimalLike;
+
+/**
+ * How to round when a value has more decimals than allowed
+ * - halfUp: nearest, ties away from zero (1.5 → 2, -1.5 → -2)
+ * - halfDown: nearest, ties toward zero (1.5 → 1, -1.5 → -1)
+ * - halfEven: nearest, ties to the even neighbour — banker's rounding (2.5 → 2, 3.5 → 4)
+ * - ceil: toward +∞ (1.1 → 2, -1.9 → -1)
+ * - floor: toward -∞ (1.9 → 1, -1.1 → -2)
+ * - truncate: toward zero (1.9 → 1, -1.9 → -1)
+ */
+export type RoundingMode =
+  | "halfUp"
+  | "halfDown"
+  | "halfEven"
+  | "ceil"
+  | "floor"
+  | "truncate";
+
+interface ScaledDecimal {
+  negative: boolean;
+  coefficient: bigint;
+  scale: number;
+}
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+export const pow10 = (exponent: number): bigint => {
+  return BigInt("1" + "0".repeat(Math.max(exponent, 0)));
+};
+
+/**
+ * Strip redundant zeros and signs: "-007.500" → "-7.5", "-0" → "0"
+ */
+export const normalizeDecimal = (numStr: string): string => {
+  const negative = numStr[0] === "-";
+  const [intPart, fracPart = ""] = numStr.replace(/^[+-]/, "").split(".");
+  const integer = intPart.replace(/^0+/, "") || "0";
+  const fraction = fracPart.replace(/0+$/, "");
+
+  if (integer === "0" && fraction === "") return "0";
+
+  return (negative ? "-" : "") + integer + (fraction ? "." + fraction : "");
+};
+
+/**
+ * Convert a number, bigint, Decimal-like object or numeric string into a
+ * plain decimal string. Exponent notation is expanded ("1e21" → "1000…0").
+ * Returns "" when the input is not a finite number.
+ */
+export const toDecimalString = (
+  value: DecimalInput | null | undefined
+): string => {
+  if (value === null || value === undefined) return "";
+
+  if (typeof value === "bigint") return value.toString();
+
+  if (typeof value === "number" && !isFinite(value)) return "";
+
+  const str = value.toString().trim();
+  const match = str.match(DECIMAL_PATTERN);
+  if (!match || (!match[2] && !match[3])) return "";
+
+  const [, sign, intPart = "", fracPart = "", exponent] = match;
+  let digits = intPart + fracPart;
+  let pointIndex = intPart.length + (exponent ? parseInt(exponent, 10) : 0);
+
+  if (pointIndex < 0) {
+    digits = "0".repeat(-pointIndex) + digits;
+    pointIndex = 0;
+  } else if (pointIndex > digits.length) {
+    digits = digits + "0".repeat(pointIndex - digits.length);
+  }
+
+  const integer = digits.substring(0, pointIndex) || "0";
+  const fraction = digits.substring(pointIndex);
+
+  // Keep trailing zeros of plain strings ("1.50") so fixed scales survive
+  const result = exponent
+    ? normalizeDecimal(integer + "." + fraction)
+    : integer.replace(/^0+(?=\d)/, "") + (str.includes(".") ? "." + fraction : "");
+
+  return sign === "-" && /[1-9]/.test(result) ? "-" + result : result;
+};
+
+/**
+ * Convert a decimal string to a JS number for `floatValue`.
+ * Unlike `parseFloat(x) || NaN`, "0" stays 0.
+ */
+export const decimalToNumber = (numStr: string): number => {
+  if (!numStr || !/\d/.test(numStr)) return NaN;
+  return parseFloat(numStr);
+};
+
+const toScaled = (numStr: string): ScaledDecimal => {
+  const negative = numStr[0] === "-";
+  const [intPart, fracPart = ""] = numStr.replace(/^[+-]/, "").split(".");
+  return {
+    negative,
+    coefficient: BigInt((intPart + fracPart).replace(/^0+(?=\d)/, "") || "0"),
+    scale: fracPart.length,
+  };
+};
+
+const fromScaled = ({ negative, coefficient, scale }: ScaledDecimal): string => {
+  const digits = coefficient.toString().padStart(scale + 1, "0");
+  const integer = digits.substring(0, digits.length - scale);
+  const fraction = digits.substring(digits.length - scale);
+  return (
+    (negative && coefficient !== ZERO ? "-" : "") +
+    integer +
+    (scale > 0 ? "." + fraction : "")
+  );
+};
+
+const alignScales = (a: ScaledDecimal, b: ScaledDecimal): [bigint, bigint, number] => {
+  const scale = Math.max(a.scale, b.scale);
+  const signed = (d: ScaledDecimal) =>
+    (d.negative ? -d.coefficient : d.coefficient) * pow10(scale - d.scale);
+  return [signed(a), signed(b), scale];
+};
+
+const fromSigned = (value: bigint, scale: number): string => {
+  const negative = value < ZERO;
+  return fromScaled({ negative, coefficient: negative ? -value : value, scale });
+};
+
+/**
+ * Move the decimal point: shiftDecimal("1.5", 3) → "1500", shiftDecimal("1.5", -3) → "0.0015"
+ */
+export const shiftDecimal = (numStr: string, places: number): string => {
+  const parts = toScaled(numStr);
+  if (places >= 0) {
+    const shifted = parts.coefficient * pow10(Math.max(places - parts.scale, 0));
+    return normalizeDecimal(
+      fromScaled({ ...parts, coefficient: shifted, scale: Math.max(parts.scale - places, 0) })
+    );
+  }
+  return normalizeDecimal(fromScaled({ ...parts, scale: parts.scale - places }));
+};
+
+/**
+ * Compare two decimal strings: -1, 0 or 1
+ */
+export const compareDecimal = (a: string, b: string): number => {
+  const [x, y] = alignScales(toScaled(a), toScaled(b));
+  return x === y ? 0 : x < y ? -1 : 1;
+};
+
+export const addDecimal = (a: string, b: string): string => {
+  const [x, y, scale] = alignScales(toScaled(a), toScaled(b));
+  return normalizeDecimal(fromSigned(x + y, scale));
+};
+
+export const subtractDecimal = (a: string, b: string): string => {
+  const [x, y, scale] = alignScales(toScaled(a), toScaled(b));
+  return normalizeDecimal(fromSigned(x - y, scale));
+};
+
+export const multiplyDecimal = (a: string, b: string): string => {
+  const x = toScaled(a);
+  const y = toScaled(b);
+  return normalizeDecimal(
+    fromScaled({
+      negative: x.negative !== y.negative,
+      coefficient: x.coefficient * y.coefficient,
+      scale: x.scale + y.scale,
+    })
+  );
+};
+
+const shouldRoundAway = (
+  quotient: bigint,
+  remainder: bigint,
+  divisor: bigint,
+  negative: boolean,
+  mode: RoundingMode
+): boolean => {
+  if (remainder === ZERO) return false;
+
+  const doubled = remainder * TWO;
+  switch (mode) {
+    case "ceil":
+      return !negative;
+    case "floor":
+      return negative;
+    case "truncate":
+      return false;
+    case "halfDown":
+      return doubled > divisor;
+    case "halfEven":
+      return doubled > divisor || (doubled === divisor && quotient % TWO !== ZERO);
+    case "halfUp":
+    default:
+      return doubled >= divisor;
+  }
+};
+
+/**
+ * Divide two decimal strings, rounding the quotient to `scale` fraction digits
+ *
+ * @example
+ * divideDecimal("1", "3", 4)            // → "0.3333"
+ * divideDecimal("2", "3", 2, "floor")   // → "0.66"
+ */
+export const divideDecimal = (
+  a: string,
+  b: string,
+  scale: number,
+  mode: RoundingMode = "halfUp"
+): string => {
+  const x = toScaled(a);
+  const y = toScaled(b);
+
+  if (y.coefficient === ZERO) {
+    throw new Error("Division by zero");
+  }
+
+  // (xc / 10^xs) / (yc / 10^ys), scaled up by 10^scale
+  const numerator = x.coefficient * pow10(y.scale + scale);
+  const divisor = y.coefficient * pow10(x.scale);
+  const negative = x.negative !== y.negative;
+  let quotient = numerator / divisor;
+
+  if (shouldRoundAway(quotient, numerator % divisor, divisor, negative, mode)) {
+    quotient += ONE;
+  }
+
+  return normalizeDecimal(fromScaled({ negative, coefficient: quotient, scale }));
+};
+
+/**
+ * Round a decimal string to exactly `scale` fraction digits
+ *
+ * @example
+ * roundDecimal("1.005", 2)               // → "1.01"
+ * roundDecimal("-2.5", 0)                // → "-3"
+ * roundDecimal("2.5", 0, "halfEven")     // → "2"
+ * roundDecimal("-1.21", 1, "floor")      // → "-1.3"
+ * roundDecimal("1.5", 3)                 // → "1.500"
+ */
+export const roundDecimal = (
+  numStr: string,
+  scale: number,
+  mode: RoundingMode = "halfUp"
+): string => {
+  const parts = toScaled(numStr);
+
+  if (parts.scale <= scale) {
+    return fromScaled({
+      ...parts,
+      coefficient: parts.coefficient * pow10(scale - parts.scale),
+      scale,
+    });
+  }
+
+  const divisor = pow10(parts.scale - scale);
+  let quotient = parts.coefficient / divisor;
+  const remainder = parts.coefficient % divisor;
+
+  if (shouldRoundAway(quotient, remainder, divisor, parts.negative, mode)) {
+    quotient += ONE;
+  }
+
+  return fromScaled({ negative: parts.negative, coefficient: quotient, scale });
+};
+
+/**
+ * Round a decimal string to the nearest multiple of `increment`
+ *
+ * @example
+ * roundToIncrement("1.23", "0.05")              // → "1.25"
+ * roundToIncrement("1.22", "0.05")              // → "1.2"
+ * roundToIncrement("17", "5", "floor")          // → "15"
+ */
+export const roundToIncrement = (
+  numStr: string,
+  increment: string,
+  mode: RoundingMode = "halfUp"
+): string => {
+  const value = toScaled(numStr);
+  const step = toScaled(increment);
+  const [x, y, scale] = alignScales(
+    { ...value, negative: false },
+    { ...step, negative: false }
+  );
+
+  if (y === ZERO) return numStr;
+
+  let quotient = x / y;
+  if (shouldRoundAway(quotient, x % y, y, value.negative, mode)) {
+    quotient += ONE;
+  }
+
+  return normalizeDecimal(
+    fromScaled({ negative: value.negative, coefficient: quotient * y, scale })
+  );
+};
+
+/**
+ * Round a decimal string to `digits` significant digits
+ *
+ * @example
+ * roundSignificant("1234.5", 3)        // → "1230"
+ * roundSignificant("0.00012345", 2)    // → "0.00012"
+ * roundSignificant("999.5", 3)         // → "1000"
+ */
+export const roundSignificant = (
+  numStr: string,
+  digits: number,
+  mode: RoundingMode = "halfUp"
+): string => {
+  const { coefficient, scale } = toScaled(numStr);
+  if (coefficient === ZERO) return "0";
+
+  // Fraction digits that keep `digits` significant ones; negative rounds left of the point
+  const targetScale = scale - (coefficient.toString().length - digits);
+  if (targetScale >= 0) {
+    return roundDecimal(numStr, targetScale, mode);
+  }
+  return shiftDecimal(
+    roundDecimal(shiftDecimal(numStr, targetScale), 0, mode),
+    -targetScale
+  );
+};
@@ -1,16 +1,70 @@
 import { useState, useCallback, useMemo } from "react";
 import {
+  applyValueScale,
   formatCurrency,
   parseCurrency,
+  parseAmountAuto,
   FormatCurrencyOptions,
   ParseCurrencyOptions,
+  RoundingMode,
+  NegativeStyle,
+  SignDisplay,
+  SignPosition,
+  TrailingZeroDisplay,
+  NumberingSystem,
   ValueObject,
+  ValueUnit,
+  fromValueUnit,
+  resolveFractionDigits,
+  stripZeroFraction,
+  toValueUnit,
 } from "./utils";
-import { getFormatOptionsFromLocale, getCurrencyConfig, LocaleConfig } from "./locales";
+import { decimalToNumber, toDecimalString } from "./decimal";
+import {
+  getFormatOptionsFromLocale,
+  getCurrencyConfig,
+  CurrencyDisplay,
+  LocaleConfig,
+} from "./locales";
+import { getMinorUnitDigits } from "./money";
+
+/**
+ * Numbers and numeric strings passed in (`initialValue`, `setValue`) are
+ * values in `valueUnit`; both take this path to the stored display-scale string
+ */
+const fromExternalValue = (
+  value: number | string,
+  valueUnit: ValueUnit,
+  unitScale: number,
+  valueScale: number
+): string =>
+  applyValueScale(fromValueUnit(toDecimalString(value), valueUnit, unitScale), valueScale);
+
+/**
+ * Whether a `setValue` string is a plain number rather than formatted text.
+ * A "." only counts as a decimal point when the format says so: with "."
+ * grouping thousands (de-DE) "1.234" is parsed as formatted text, i.e. 1234.
+ */
+const isNumericValue = (value: string, formatOptions: FormatCurrencyOptions): boolean => {
+  if (toDecimalString(value) === "") return false;
+  if (value.indexOf(".") === -1) return true;
+
+  const { decimalSeparator = ".", thousandSeparator } = formatOptions;
+  return decimalSeparator === "." && thousandSeparator !== ".";
+};
 
 export interface UseCurrencyFormatOptions extends FormatCurrencyOptions {
   locale?: string;
+  /** ISO 4217 code; sets the format and the digits of minor units */
+  currency?: string;
   initialValue?: number | string;
+  /**
+   * Unit of `initialValue`, numbers and numeric strings passed to `setValue`,
+   * `value` and `valueAsString` (default: "major")
+   */
+  valueUnit?: ValueUnit;
+  /** Powers of ten between the value and the display: 2 shows a stored 0.125 as 12.5 (percent) */
+  valueScale?: number;
 }
 
 export interface UseCurrencyFormatReturn {
@@ -28,7 +82,9 @@ export interface UseCurrencyFormatReturn {
   formatOptions: FormatCurrencyOptions;
   /** Props to spread on CurrencyFormat component */
   inputProps: {
-    value: number | string;
+    /** Decimal string, so no precision is lost on the way to CurrencyFormat */
+    value: string;
+    isNumericString: boolean;
     onValueChange: (values: ValueObject) => void;
     decimalSeparator: string;
     thousandSeparator: string | boolean;
@@ -36,7 +92,16 @@ export interface UseCurrencyFormatReturn {
     suffix: string;
     decimalScale?: number;
     fixedDecimalScale?: boolean;
+    minimumFractionDigits?: number;
+    maximumFractionDigits?: number;
+    trailingZeroDisplay?: TrailingZeroDisplay;
+    roundingMode?: RoundingMode;
+    roundingIncrement?: number;
     allowNegative?: boolean;
+    negativeStyle?: NegativeStyle;
+    signDisplay?: SignDisplay;
+    signPosition?: SignPosition;
+    numberingSystem?: NumberingSystem;
     inputMode?: "numeric" | "decimal" | "text";
   };
   /** Reset to initial value */
@@ -64,24 +129,36 @@ export function useCurrencyFormat(
 ): UseCurrencyFormatReturn {
   const {
     locale,
+    currency,
     initialValue = 0,
+    valueUnit = "major",
+    valueScale = 0,
     decimalSeparator: decimalSeparatorProp,
     thousandSeparator: thousandSeparatorProp,
     prefix: prefixProp,
     suffix: suffixProp,
     decimalScale: decimalScaleProp,
     fixedDecimalScale: fixedDecimalScaleProp,
+    minimumFractionDigits: minimumFractionDigitsProp,
+    maximumFractionDigits: maximumFractionDigitsProp,
+    trailingZeroDisplay: trailingZeroDisplayProp,
+    roundingMode: roundingModeProp,
+    roundingIncrement: roundingIncrementProp,
     allowNegative: allowNegativeProp,
+    negativeStyle: negativeStyleProp,
+    signDisplay: signDisplayProp,
+    signPosition: signPositionProp,
     thousandSpacing: thousandSpacingProp,
+    numberingSystem: numberingSystemProp,
   } = options;
 
-  // Get locale config if locale is provided
-  const localeOptions = useMemo(
-    () => (locale ? getFormatOptionsFromLocale(locale) : undefined),
-    [locale]
-  );
+  // Get currency or locale config if either is provided
+  const localeOptions = useMemo(() => {
+    if (currency) return getCurrencyConfig(currency, { locale });
+    return locale ? getFormatOptionsFromLocale(locale) : undefined;
+  }, [currency, locale]);
 
-  // Merge options: prop values override locale values
+  // Merge options: prop values override currency/locale values
   const formatOptions = useMemo<FormatCurrencyOptions>(() => {
     const base = localeOptions || {};
     return {
@@ -91,8 +168,17 @@ export function useCurrencyFormat(
       suffix: suffixProp ?? base.suffix ?? "",
       decimalScale: decimalScaleProp ?? base.decimalScale,
       fixedDecimalScale: fixedDecimalScaleProp ?? base.fixedDecimalScale,
+      minimumFractionDigits: minimumFractionDigitsProp ?? base.minimumFractionDigits,
+      maximumFractionDigits: maximumFractionDigitsProp ?? base.maximumFractionDigits,
+      trailingZeroDisplay: trailingZeroDisplayProp ?? base.trailingZeroDisplay,
+      roundingMode: roundingModeProp ?? base.roundingMode,
+      roundingIncrement: roundingIncrementProp ?? base.roundingIncrement,
       allowNegative: allowNegativeProp ?? base.allowNegative ?? true,
+      negativeStyle: negativeStyleProp ?? base.negativeStyle,
+      signDisplay: signDisplayProp ?? base.signDisplay,
+      signPosition: signPositionProp ?? base.signPosition,
       thousandSpacing: thousandSpacingProp ?? base.thousandSpacing ?? "3",
+      numberingSystem: numberingSystemProp ?? base.numberingSystem,
     };
   }, [
     localeOptions,
@@ -102,19 +188,27 @@ export function useCurrencyFormat(
     suffixProp,
     decimalScaleProp,
     fixedDecimalScaleProp,
+    minimumFractionDigitsProp,
+    maximumFractionDigitsProp,
+    trailingZeroDisplayProp,
+    roundingModeProp,
+    roundingIncrementProp,
     allowNegativeProp,
+    negativeStyleProp,
+    signDisplayProp,
+    signPositionProp,
     thousandSpacingProp,
+    numberingSystemProp,
   ]);
 
+  // Minor units follow the currency's digits, else the resolved decimal scale
+  const unitScale =
+    (currency ? getMinorUnitDigits(currency) : undefined) ?? formatOptions.decimalScale ?? 2;
+
   // Parse initial value
   const parseInitialValue = useCallback(
-    (val: number | string): string => {
-      if (typeof val === "number") {
-        return isNaN(val) ? "" : val.toString();
-      }
-      return val;
-    },
-    []
+    (val: number | string): string => fromExternalValue(val, valueUnit, unitScale, valueScale),
+    [valueUnit, unitScale, valueScale]
   );
 
   // State
@@ -122,10 +216,21 @@ export function useCurrencyFormat(
     parseInitialValue(initialValue)
   );
 
-  // Derived values
+  // Derived values (in valueUnit, undoing valueScale)
+  const valueInUnit = useMemo(
+    () =>
+      toValueUnit(
+        applyValueScale(valueAsString, -valueScale),
+        valueUnit,
+        unitScale,
+        formatOptions.roundingMode
+      ),
+    [valueAsString, valueScale, valueUnit, unitScale, formatOptions.roundingMode]
+  );
+
   const value = useMemo(
-    () => (valueAsString === "" ? NaN : parseFloat(valueAsString)),
-    [valueAsString]
+    () => decimalToNumber(valueInUnit),
+    [valueInUnit]
   );
 
   const formattedValue = useMemo(
@@ -136,10 +241,10 @@ export function useCurrencyFormat(
   // Setters
   const setValue = useCallback(
     (newValue: number | string) => {
-      if (typeof newValue === "number") {
-        setValueAsString(isNaN(newValue) ? "" : newValue.toString());
+      if (typeof newValue === "number" || isNumericValue(newValue, formatOptions)) {
+        setValueAsString(fromExternalValue(newValue, valueUnit, unitScale, valueScale));
       } else {
-        // Parse if it looks formatted
+        // Formatted text is what the input shows: major units, already scaled
         const parseOptions: ParseCurrencyOptions = {
           decimalSeparator: formatOptions.decimalSeparator,
           thousandSeparator: formatOptions.thousandSeparator,
@@ -150,7 +255,7 @@ export function useCurrencyFormat(
         setValueAsString(parsed.value);
       }
     },
-    [formatOptions]
+    [formatOptions, valueUnit, unitScale, valueScale]
   );
 
   const setFormattedValue = useCallback(
@@ -180,16 +285,17 @@ export function useCurrencyFormat(
     setValueAsString(values.value);
   }, []);
 
-  // Compute inputMode based on decimalScale
+  // Compute inputMode based on the maximum fraction digits
   const resolvedInputMode = useMemo((): "numeric" | "decimal" => {
-    if (formatOptions.decimalScale === 0) return "numeric";
+    if (resolveFractionDigits(formatOptions).maximum === 0) return "numeric";
     return "decimal";
-  }, [formatOptions.decimalScale]);
+  }, [formatOptions]);
 
   // Props to spread on CurrencyFormat
   const inputProps = useMemo(
     () => ({
-      value: valueAsString === "" ? "" : parseFloat(valueAsString),
+      value: valueAsString,
+      isNumericString: true,
       onValueChange: handleValueChange,
       decimalSeparator: formatOptions.decimalSeparator || ".",
       thousandSeparator: formatOptions.thousandSeparator ?? ",",
@@ -197,7 +303,16 @@ export function useCurrencyFormat(
       suffix: formatOptions.suffix || "",
       decimalScale: formatOptions.decimalScale,
       fixedDecimalScale: formatOptions.fixedDecimalScale,
+      minimumFractionDigits: formatOptions.minimumFractionDigits,
+      maximumFractionDigits: formatOptions.maximumFractionDigits,
+      trailingZeroDisplay: formatOptions.trailingZeroDisplay,
+      roundingMode: formatOptions.roundingMode,
+      roundingIncrement: formatOptions.roundingIncrement,
       allowNegative: formatOptions.allowNegative,
+      negativeStyle: formatOptions.negativeStyle,
+      signDisplay: formatOptions.signDisplay,
+      signPosition: formatOptions.signPosition,
+      numberingSystem: formatOptions.numberingSystem,
       inputMode: resolvedInputMode,
     }),
     [valueAsString, handleValueChange, formatOptions, resolvedInputMode]
@@ -205,7 +320,7 @@ export function useCurrencyFormat(
 
   return {
     value,
-    valueAsString,
+    valueAsString: valueInUnit,
     formattedValue,
     setValue,
     setFormattedValue,
@@ -219,8 +334,24 @@ export function useCurrencyFormat(
 export interface UseCurrencyInputOptions extends FormatCurrencyOptions {
   locale?: string;
   currency?: string;
+  /** How `currency` is shown: symbol, narrowSymbol, code or name (default: the database symbol) */
+  currencyDisplay?: CurrencyDisplay;
   initialValue?: number | string;
   onValueChange?: (values: ValueObject) => void;
+  /**
+   * Unit of `initialValue`, numbers and numeric strings passed to `setValue`,
+   * `value`, `valueAsString` and `onValueChange` values; "minor" uses the
+   * currency's decimal digits
+   * (default: "major")
+   */
+  valueUnit?: ValueUnit;
+  /** Powers of ten between the value and the display: 2 shows a stored 0.125 as 12.5 (percent) */
+  valueScale?: number;
+  /**
+   * Infer separators of pasted text and formatted `setValue` strings with
+   * parseAmountAuto, so "1.234,56" and "1,234.56" both land as 1234.56
+   */
+  detectSeparators?: boolean;
 }
 
 export interface UseCurrencyInputReturn {
@@ -242,6 +373,7 @@ export interface UseCurrencyInputReturn {
     onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
     onBlur: (e: React.FocusEvent<HTMLInputElement>) => void;
     onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+    onPaste: (e: React.ClipboardEvent<HTMLInputElement>) => void;
     inputMode: "numeric" | "decimal";
   };
 }
@@ -269,16 +401,29 @@ export function useCurrencyInput(
   const {
     locale,
     currency,
+    currencyDisplay,
     initialValue = 0,
     onValueChange: onValueChangeProp,
+    detectSeparators = false,
+    valueUnit = "major",
+    valueScale = 0,
     decimalSeparator: decimalSeparatorProp,
     thousandSeparator: thousandSeparatorProp,
     prefix: prefixProp,
     suffix: suffixProp,
     decimalScale: decimalScaleProp,
     fixedDecimalScale: fixedDecimalScaleProp,
+    minimumFractionDigits: minimumFractionDigitsProp,
+    maximumFractionDigits: maximumFractionDigitsProp,
+    trailingZeroDisplay: trailingZeroDisplayProp,
+    roundingMode: roundingModeProp,
+    roundingIncrement: roundingIncrementProp,
     allowNegative: allowNegativeProp,
+    negativeStyle: negativeStyleProp,
+    signDisplay: signDisplayProp,
+    signPosition: signPositionProp,
     thousandSpacing: thousandSpacingProp,
+    numberingSystem: numberingSystemProp,
   } = options;
 
   // Resolve format options from currency code, locale, or direct props
@@ -287,7 +432,7 @@ export function useCurrencyInput(
     let base: FormatCurrencyOptions = {};
 
     if (currency) {
-      base = getCurrencyConfig(currency, { locale });
+      base = getCurrencyConfig(currency, { locale, currencyDisplay });
     } else if (locale) {
       base = getFormatOptionsFromLocale(locale);
     }
@@ -299,11 +444,21 @@ export function useCurrencyInput(
       suffix: suffixProp ?? base.suffix ?? "",
       decimalScale: decimalScaleProp ?? base.decimalScale,
       fixedDecimalScale: fixedDecimalScaleProp ?? base.fixedDecimalScale,
+      minimumFractionDigits: minimumFractionDigitsProp ?? base.minimumFractionDigits,
+      maximumFractionDigits: maximumFractionDigitsProp ?? base.maximumFractionDigits,
+      trailingZeroDisplay: trailingZeroDisplayProp ?? base.trailingZeroDisplay,
+      roundingMode: roundingModeProp ?? base.roundingMode,
+      roundingIncrement: roundingIncrementProp ?? base.roundingIncrement,
       allowNegative: allowNegativeProp ?? base.allowNegative ?? true,
+      negativeStyle: negativeStyleProp ?? base.negativeStyle,
+      signDisplay: signDisplayProp ?? base.signDisplay,
+      signPosition: signPositionProp ?? base.signPosition,
       thousandSpacing: thousandSpacingProp ?? base.thousandSpacing ?? "3",
+      numberingSystem: numberingSystemProp ?? base.numberingSystem,
     };
   }, [
     currency,
+    currencyDisplay,
     locale,
     decimalSeparatorProp,
     thousandSeparatorProp,
@@ -311,42 +466,79 @@ export function useCurrencyInput(
     suffixProp,
     decimalScaleProp,
     fixedDecimalScaleProp,
+    minimumFractionDigitsProp,
+    maximumFractionDigitsProp,
+    trailingZeroDisplayProp,
+    roundingModeProp,
+    roundingIncrementProp,
     allowNegativeProp,
+    negativeStyleProp,
+    signDisplayProp,
+    signPositionProp,
     thousandSpacingProp,
+    numberingSystemProp,
   ]);
 
-  // State
-  const [valueAsString, setValueAsString] = useState<string>(() => {
-    if (typeof initialValue === "number") {
-      return isNaN(initialValue) ? "" : initialValue.toString();
-    }
-    return initialValue;
-  });
+  // Minor units follow the currency's digits, else the resolved decimal scale
+  const unitScale =
+    (currency ? getMinorUnitDigits(currency) : undefined) ?? formatOptions.decimalScale ?? 2;
+
+  // State (always major units; converted at the edges)
+  const [valueAsString, setValueAsString] = useState<string>(() =>
+    fromExternalValue(initialValue, valueUnit, unitScale, valueScale)
+  );
+
+  // Derived values (in valueUnit, undoing valueScale)
+  const valueInUnit = useMemo(
+    () =>
+      toValueUnit(
+        applyValueScale(valueAsString, -valueScale),
+        valueUnit,
+        unitScale,
+        formatOptions.roundingMode
+      ),
+    [valueAsString, valueScale, valueUnit, unitScale, formatOptions.roundingMode]
+  );
 
-  // Derived values
   const value = useMemo(
-    () => (valueAsString === "" ? NaN : parseFloat(valueAsString)),
-    [valueAsString]
+    () => decimalToNumber(valueInUnit),
+    [valueInUnit]
+  );
+
+  // Typed decimals ("5.0") survive stripIfInteger until blur
+  const formatForInput = useCallback(
+    (numStr: string): string =>
+      formatCurrency(
+        numStr,
+        numStr.includes(".") ? { ...formatOptions, trailingZeroDisplay: "auto" } : formatOptions
+      ),
+    [formatOptions]
   );
 
   const formattedValue = useMemo(
-    () => formatCurrency(valueAsString, formatOptions),
-    [valueAsString, formatOptions]
+    () => formatForInput(valueAsString),
+    [valueAsString, formatForInput]
   );
 
   // Notify parent of value changes
   const notifyValueChange = useCallback(
     (numStr: string) => {
       if (onValueChangeProp) {
-        const formatted = formatCurrency(numStr, formatOptions);
+        const formatted = formatForInput(numStr);
+        const unitValue = toValueUnit(
+          applyValueScale(numStr, -valueScale),
+          valueUnit,
+          unitScale,
+          formatOptions.roundingMode
+        );
         onValueChangeProp({
-          value: numStr,
-          floatValue: parseFloat(numStr) || NaN,
+          value: unitValue,
+          floatValue: decimalToNumber(unitValue),
           formattedValue: formatted,
         });
       }
     },
-    [onValueChangeProp, formatOptions]
+    [onValueChangeProp, formatOptions, formatForInput, valueUnit, unitScale, valueScale]
   );
 
   // Strip formatting from a display value back to raw numeric string
@@ -363,6 +555,17 @@ export function useCurrencyInput(
     [formatOptions]
   );
 
+  // Parse text of unknown locale, using the configured separators as a hint
+  const parseDetected = useCallback(
+    (text: string): string =>
+      parseAmountAuto(text, {
+        locale,
+        decimalSeparator: formatOptions.decimalSeparator,
+        thousandSeparator: formatOptions.thousandSeparator,
+      }).value,
+    [locale, formatOptions]
+  );
+
   // Handle input change: strip formatting, update state, re-format
   const handleChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -391,10 +594,10 @@ export function useCurrencyInput(
       notifyValueChange(numStr);
 
       // Re-format and update cursor
-      const formatted = formatCurrency(numStr, formatOptions);
+      const formatted = formatForInput(numStr);
       e.target.value = formatted;
     },
-    [formatOptions, stripFormatting, notifyValueChange]
+    [formatOptions, stripFormatting, formatForInput, notifyValueChange]
   );
 
   // Handle blur: finalize formatting (fix leading zeros etc.)
@@ -413,15 +616,20 @@ export function useCurrencyInput(
 
       numStr = (isNeg ? "-" : "") + abs;
 
+      // Whole amounts lose their zeros with stripIfInteger ("5.00" → "5")
+      if (formatOptions.trailingZeroDisplay === "stripIfInteger") {
+        numStr = stripZeroFraction(numStr);
+      }
+
       if (numStr !== valueAsString) {
         setValueAsString(numStr);
         notifyValueChange(numStr);
       }
 
-      const formatted = formatCurrency(numStr, formatOptions);
+      const formatted = formatForInput(numStr);
       e.target.value = formatted;
     },
-    [valueAsString, formatOptions, notifyValueChange]
+    [valueAsString, formatOptions, formatForInput, notifyValueChange]
   );
 
   // Handle key down: Enter to format, prevent invalid chars
@@ -436,12 +644,30 @@ export function useCurrencyInput(
     []
   );
 
+  // Handle paste: with detectSeparators a pasted amount replaces the value
+  const handlePaste = useCallback(
+    (e: React.ClipboardEvent<HTMLInputElement>) => {
+      if (!detectSeparators) return;
+
+      const numStr = parseDetected(e.clipboardData.getData("text"));
+      if (numStr === "") return; // not an amount, paste as usual
+
+      e.preventDefault();
+      setValueAsString(numStr);
+      notifyValueChange(numStr);
+      e.currentTarget.value = formatForInput(numStr);
+    },
+    [detectSeparators, parseDetected, formatForInput, notifyValueChange]
+  );
+
   // Setters
   const setValue = useCallback(
     (newValue: number | string) => {
       let numStr: string;
-      if (typeof newValue === "number") {
-        numStr = isNaN(newValue) ? "" : newValue.toString();
+      if (typeof newValue === "number" || isNumericValue(newValue, formatOptions)) {
+        numStr = fromExternalValue(newValue, valueUnit, unitScale, valueScale);
+      } else if (detectSeparators) {
+        numStr = parseDetected(newValue);
       } else {
         const parsed = parseCurrency(newValue, {
           decimalSeparator: formatOptions.decimalSeparator,
@@ -454,16 +680,14 @@ export function useCurrencyInput(
       setValueAsString(numStr);
       notifyValueChange(numStr);
     },
-    [formatOptions, notifyValueChange]
+    [formatOptions, valueUnit, unitScale, valueScale, detectSeparators, parseDetected, notifyValueChange]
   );
 
   const reset = useCallback(() => {
-    const val = typeof initialValue === "number"
-      ? (isNaN(initialValue) ? "" : initialValue.toString())
-      : initialValue;
+    const val = fromExternalValue(initialValue, valueUnit, unitScale, valueScale);
     setValueAsString(val);
     notifyValueChange(val);
-  }, [initialValue, notifyValueChange]);
+  }, [initialValue, valueUnit, unitScale, valueScale, notifyValueChange]);
 
   const clear = useCallback(() => {
     setValueAsString("");
@@ -472,9 +696,9 @@ export function useCurrencyInput(
 
   // inputMode auto-detection
   const resolvedInputMode = useMemo((): "numeric" | "decimal" => {
-    if (formatOptions.decimalScale === 0) return "numeric";
+    if (resolveFractionDigits(formatOptions).maximum === 0) return "numeric";
     return "decimal";
-  }, [formatOptions.decimalScale]);
+  }, [formatOptions]);
 
   // getInputProps — spread on any <input>
   const getInputProps = useCallback(
@@ -483,14 +707,15 @@ export function useCurrencyInput(
       onChange: handleChange,
       onBlur: handleBlur,
       onKeyDown: handleKeyDown,
+      onPaste: handlePaste,
       inputMode: resolvedInputMode as "numeric" | "decimal",
     }),
-    [formattedValue, handleChange, handleBlur, handleKeyDown, resolvedInputMode]
+    [formattedValue, handleChange, handleBlur, handleKeyDown, handlePaste, resolvedInputMode]
   );
 
   return {
     value,
-    valueAsString,
+    valueAsString: valueInUnit,
     formattedValue,
     setValue,
     reset,
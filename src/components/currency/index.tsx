@@ -17,29 +17,76 @@ import React, {
 } from "react";
 
 import {
+  applyValueScale,
+  isRtlInput,
   omit,
+  resolveFractionDigits,
+  toValueUnit,
+  CurrencyPart,
   ValueObject,
+  ValueUnit,
   ThousandSpacing,
+  RoundingMode,
+  NegativeStyle,
+  SignDisplay,
+  SignPosition,
+  TrailingZeroDisplay,
+  NumberingSystem,
 } from "./utils";
 
+import { decimalToNumber } from "./decimal";
+import { getCurrencyConfig, CurrencyDisplay } from "./locales";
+import { getMinorUnitDigits } from "./money";
 import { useFormatting } from "./useFormatting";
 import { useCaretManagement } from "./useCaretManagement";
 
 // Re-export types and utilities from utils
 export type {
   ThousandSpacing,
+  RoundingMode,
+  NegativeStyle,
+  SignDisplay,
+  SignPosition,
+  TrailingZeroDisplay,
+  Notation,
+  ExponentStyle,
+  NumberingSystem,
+  BidiMark,
+  CurrencyPart,
+  CurrencyPartType,
   ValueObject,
+  ValueUnit,
   FormatCurrencyOptions,
+  PrecisionStep,
   ParseCurrencyOptions,
+  ParseCurrencyResult,
+  ParseErrorCode,
+  ParseError,
+  StrictParseResult,
+  ParseAmountAutoOptions,
+  ParseAmountAutoResult,
+  DetectionConfidence,
   CompactDisplayOptions,
+  CompactScale,
+  CompactDisplayStyle,
   FormatCompactOptions,
 } from "./utils";
 export {
   formatCurrency,
+  formatCurrencyToParts,
   parseCurrency,
+  parseAmountAuto,
   formatCompact,
+  formatCompactToParts,
   parseCompact,
   defaultCompactDisplay,
+  defaultPrecisionSteps,
+  roundToSignificant,
+  numberingSystemZeros,
+  normalizeDigits,
+  toNativeDigits,
+  bidiMarks,
+  stripBidiMarks,
 } from "./utils";
 
 // Re-export PatternFormat
@@ -63,6 +110,7 @@ export {
   // Dynamic locale detection
   detectLocaleFormat,
   getCompactLabels,
+  compactScaleSystems,
   createLocaleConfig,
   getAutoLocaleConfig,
   formatWithIntl,
@@ -72,8 +120,75 @@ export {
   // Currency database (ISO 4217)
   currencyDatabase,
   getCurrencyConfig,
+  // Redenominations and changeovers
+  currencySuccessions,
+  getCurrencySuccession,
+} from "./locales";
+export type {
+  LocaleConfig,
+  CurrencyInfo,
+  CurrencyUnitNames,
+  CurrencyDisplay,
+  CurrencyRulePeriod,
+  CurrencySuccession,
 } from "./locales";
-export type { LocaleConfig, CurrencyInfo } from "./locales";
+
+// Re-export money
+export {
+  createMoney,
+  createMoneyFromMinor,
+  allocate,
+  toMinorUnits,
+  fromMinorUnits,
+  getMinorUnitDigits,
+} from "./money";
+export type { Money, MoneyFormatOptions, AllocateOptions } from "./money";
+
+// Re-export exchange-rate conversion
+export { createConverter, createStaticRateProvider, convertLegacyAmount } from "./converter";
+export type {
+  RateQuote,
+  RateProvider,
+  StaticRateTable,
+  ConverterOptions,
+  ConvertOptions,
+  ConvertLegacyOptions,
+  ConversionResult,
+  Converter,
+} from "./converter";
+
+// Re-export percent formatting
+export { formatPercent, parsePercent, percentUnitScale } from "./percent";
+export type { PercentUnit, FormatPercentOptions, ParsePercentOptions } from "./percent";
+
+// Re-export amount in words
+export {
+  formatAmountInWords,
+  amountInWordsPresets,
+  getAmountInWordsRules,
+  registerAmountInWordsLocale,
+  unregisterAmountInWordsLocale,
+  formatChineseCapital,
+  parseChineseCapital,
+} from "./words";
+export type {
+  AmountInWordsRules,
+  MinorUnitStyle,
+  FormatAmountInWordsOptions,
+  ChineseCapitalSuffix,
+  FormatChineseCapitalOptions,
+  ParseChineseCapitalOptions,
+} from "./words";
+
+// Re-export the ISO 4217 dataset (one export per currency, so unused ones are dropped)
+export * as iso4217 from "./iso4217";
+export {
+  iso4217Version,
+  iso4217Currencies,
+  withdrawnCurrencies,
+  findIso4217Currency,
+} from "./iso4217";
+export type { Iso4217Currency, CurrencyCode, WithdrawnCurrencyCode } from "./iso4217";
 
 // Types
 export type FormatFunction = (value: string) => string;
@@ -85,7 +200,8 @@ export type OnValueChangeFunction = (
 ) => void;
 export type RenderTextFunction = (
   value: string,
-  otherProps: Record<string, unknown>
+  otherProps: Record<string, unknown>,
+  parts: CurrencyPart[]
 ) => ReactNode;
 
 export type ThousandsGroupStyle = "thousand" | "lakh" | "wan" | "none";
@@ -95,8 +211,8 @@ export interface CurrencyFormatProps
     InputHTMLAttributes<HTMLInputElement>,
     "value" | "defaultValue" | "onChange" | "onKeyDown" | "onMouseUp" | "onFocus" | "onBlur"
   > {
-  value?: string | number;
-  defaultValue?: string | number;
+  value?: string | number | bigint;
+  defaultValue?: string | number | bigint;
   name?: string;
   format?: string | FormatFunction;
   decimalScale?: number;
@@ -107,12 +223,31 @@ export interface CurrencyFormatProps
   thousandsGroupStyle?: ThousandsGroupStyle;
   mask?: string | string[];
   allowNegative?: boolean;
+  negativeStyle?: NegativeStyle;
+  signDisplay?: SignDisplay;
+  signPosition?: SignPosition;
   allowEmptyFormatting?: boolean;
   prefix?: string;
   suffix?: string;
   removeFormatting?: RemoveFormattingFunction;
   fixedDecimalScale?: boolean;
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+  trailingZeroDisplay?: TrailingZeroDisplay;
+  roundingMode?: RoundingMode;
+  roundingIncrement?: number;
   isNumericString?: boolean;
+  valueUnit?: ValueUnit;
+  /** Powers of ten between `value` and the display: 2 shows a stored 0.125 as 12.5 (percent) */
+  valueScale?: number;
+  /** Digits shown in the input (default: "latn"); typing any digits works, `value` stays ASCII */
+  numberingSystem?: NumberingSystem;
+  /** ISO 4217 code; its symbol, digits and rounding fill in props that are not set */
+  currency?: string;
+  /** How `currency` is shown: symbol, narrowSymbol, code or name (default: the database symbol) */
+  currencyDisplay?: CurrencyDisplay;
+  /** Locale for the `currencyDisplay` text and for currencies missing from currencyDatabase */
+  locale?: string;
   isAllowed?: IsAllowedFunction;
   onValueChange?: OnValueChangeFunction;
   onChange?: (e: ChangeEvent<HTMLInputElement>) => void;
@@ -141,12 +276,26 @@ const PROPS_TO_OMIT: string[] = [
   "thousandsGroupStyle",
   "mask",
   "allowNegative",
+  "negativeStyle",
+  "signDisplay",
+  "signPosition",
   "allowEmptyFormatting",
   "prefix",
   "suffix",
   "removeFormatting",
   "fixedDecimalScale",
+  "minimumFractionDigits",
+  "maximumFractionDigits",
+  "trailingZeroDisplay",
+  "roundingMode",
+  "roundingIncrement",
   "isNumericString",
+  "valueUnit",
+  "valueScale",
+  "numberingSystem",
+  "currency",
+  "currencyDisplay",
+  "locale",
   "isAllowed",
   "onValueChange",
   "onChange",
@@ -168,17 +317,31 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
   (props, ref): JSX.Element | null => {
     const {
       displayType = "input",
-      decimalSeparator = ".",
+      decimalSeparator: decimalSeparatorProp,
       allowedDecimalSeparators,
       thousandSpacing: thousandSpacingProp,
-      thousandSeparator = ",",
+      thousandSeparator: thousandSeparatorProp,
       thousandsGroupStyle,
-      fixedDecimalScale = false,
-      prefix = "",
-      suffix = "",
+      fixedDecimalScale: fixedDecimalScaleProp,
+      minimumFractionDigits,
+      maximumFractionDigits,
+      trailingZeroDisplay = "auto",
+      roundingMode = "halfUp",
+      roundingIncrement: roundingIncrementProp,
+      prefix: prefixProp,
+      suffix: suffixProp,
       allowNegative = true,
+      negativeStyle = "minus",
+      signDisplay = "auto",
+      signPosition = "start",
       allowEmptyFormatting = false,
       isNumericString: isNumericStringProp = false,
+      valueUnit = "major",
+      valueScale = 0,
+      numberingSystem,
+      currency,
+      currencyDisplay,
+      locale,
       type = "text",
       name,
       onValueChange,
@@ -189,7 +352,7 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
       onBlur: onBlurProp,
       isAllowed,
       format,
-      decimalScale,
+      decimalScale: decimalScaleProp,
       mask = " ",
       removeFormatting: removeFormattingProp,
       value: valueProp,
@@ -209,10 +372,27 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
     const inputRef = useRef<HTMLInputElement>(null);
     const prevPropsRef = useRef<CurrencyFormatProps>(props);
     const isComposingRef = useRef<boolean>(false);
+    const caretTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
 
     // Forward ref
     useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
 
+    // Props override the config of `currency`
+    const currencyConfig = useMemo(
+      () => (currency ? getCurrencyConfig(currency, { locale, currencyDisplay }) : {}),
+      [currency, locale, currencyDisplay]
+    );
+    const decimalSeparator = decimalSeparatorProp ?? currencyConfig.decimalSeparator ?? ".";
+    const thousandSeparator = thousandSeparatorProp ?? currencyConfig.thousandSeparator ?? ",";
+    const fixedDecimalScale = fixedDecimalScaleProp ?? currencyConfig.fixedDecimalScale ?? false;
+    const decimalScale = decimalScaleProp ?? currencyConfig.decimalScale;
+    const roundingIncrement = roundingIncrementProp ?? currencyConfig.roundingIncrement;
+    const prefix = prefixProp ?? currencyConfig.prefix ?? "";
+    const suffix = suffixProp ?? currencyConfig.suffix ?? "";
+    // Minor units follow the currency's digits, else the display scale
+    const minorUnitDigits =
+      (currency ? getMinorUnitDigits(currency) : undefined) ?? decimalScale ?? 2;
+
     // Resolve thousandSpacing from thousandsGroupStyle or direct prop
     const thousandSpacing = useMemo((): ThousandSpacing => {
       if (thousandSpacingProp) return thousandSpacingProp;
@@ -225,8 +405,8 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
           default: return "3";
         }
       }
-      return "3";
-    }, [thousandSpacingProp, thousandsGroupStyle]);
+      return currencyConfig.thousandSpacing ?? "3";
+    }, [thousandSpacingProp, thousandsGroupStyle, currencyConfig]);
 
     const isUncontrolled = valueProp === undefined && defaultValueProp !== undefined;
 
@@ -234,9 +414,11 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
     const {
       getSeparators,
       getNumberRegex,
+      getNegationBounds,
       splitDecimal,
       removeFormatting,
       formatNumString,
+      formatAsNumberToParts,
       formatInput,
       formatValueProp,
       applyLeadingZeroFix,
@@ -246,18 +428,45 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
       thousandSpacing,
       decimalScale,
       fixedDecimalScale,
+      minimumFractionDigits,
+      maximumFractionDigits,
+      trailingZeroDisplay,
+      roundingMode,
+      roundingIncrement,
       format,
       mask,
       prefix,
       suffix,
       allowNegative,
+      negativeStyle,
+      signDisplay,
+      signPosition,
       allowEmptyFormatting,
       removeFormattingProp,
       isNumericStringProp,
+      valueUnit,
+      minorUnitDigits,
+      valueScale,
+      numberingSystem,
       valueProp,
       defaultValueProp,
     });
 
+    // Raw values are reported in `valueUnit` (minor units use the currency's digits)
+    // and undo `valueScale` (12.5 shown → 0.125 reported)
+    const createValueObject = useCallback(
+      (formattedValue: string, numAsString: string): ValueObject => {
+        const value = toValueUnit(
+          applyValueScale(numAsString, -valueScale),
+          valueUnit,
+          minorUnitDigits,
+          roundingMode
+        );
+        return { formattedValue, value, floatValue: decimalToNumber(value), name };
+      },
+      [valueUnit, valueScale, minorUnitDigits, roundingMode, name]
+    );
+
     // Validate props
     const validateProps = useCallback((): void => {
       const { decimalSeparator: decSep, thousandSeparator: tSep } =
@@ -311,7 +520,9 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
       suffix,
       decimalScale,
       fixedDecimalScale,
+      negativeStyle,
       getSeparators,
+      getNegationBounds,
       getNumberRegex,
       removeFormatting,
       splitDecimal,
@@ -357,12 +568,7 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
         let formattedValue = formatInput(inputValue) || "";
         const numAsString = removeFormatting(formattedValue);
 
-        const valueObj: ValueObject = {
-          formattedValue,
-          value: numAsString,
-          floatValue: parseFloat(numAsString),
-          name,
-        };
+        const valueObj = createValueObject(formattedValue, numAsString);
 
         if (isAllowed && !isAllowed(valueObj)) {
           formattedValue = lastValue;
@@ -396,7 +602,7 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
         setPatchedCaretPosition,
         onValueChange,
         onChangeProp,
-        name,
+        createValueObject,
         disabled,
         readOnly,
       ]
@@ -410,12 +616,7 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
         if (!format) {
           numAsString = applyLeadingZeroFix(numAsString);
           const formattedValue = formatNumString(numAsString);
-          const valueObj: ValueObject = {
-            formattedValue,
-            value: numAsString,
-            floatValue: parseFloat(numAsString),
-            name,
-          };
+          const valueObj = createValueObject(formattedValue, numAsString);
 
           if (formattedValue !== lastValue) {
             setState({ value: formattedValue, numAsString });
@@ -426,7 +627,7 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
         }
         onBlurProp?.(e);
       },
-      [state, format, formatNumString, applyLeadingZeroFix, onValueChange, onBlurProp, name]
+      [state, format, formatNumString, applyLeadingZeroFix, createValueObject, onValueChange, onBlurProp]
     );
 
     const handleKeyDown = useCallback(
@@ -457,24 +658,20 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
         const negativeRegex = new RegExp("-");
         const isPatternFormat = typeof format === "string";
 
+        const [negBefore, negAfter] = getNegationBounds(value);
         const leftBound = isPatternFormat
           ? (format as string).indexOf("#")
-          : prefix.length + (value[0] === "-" ? 1 : 0);
+          : prefix.length + negBefore;
         const rightBound = isPatternFormat
           ? (format as string).lastIndexOf("#") + 1
-          : value.length - suffix.length;
+          : value.length - suffix.length - negAfter;
 
         if (key === "Enter" && !format && !readOnly && !disabled) {
           let numAsString = state.numAsString || "";
           numAsString = applyLeadingZeroFix(numAsString);
           const formattedValue = formatNumString(numAsString);
           if (formattedValue !== state.value) {
-            const valueObj: ValueObject = {
-              formattedValue,
-              value: numAsString,
-              floatValue: parseFloat(numAsString),
-              name,
-            };
+            const valueObj = createValueObject(formattedValue, numAsString);
             setState({ value: formattedValue, numAsString });
             onValueChange?.(valueObj, { source: "event" });
             el.value = formattedValue;
@@ -497,6 +694,22 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
           return;
         }
 
+        // In a right-to-left input the digits still display left to right while
+        // RTL affixes do not, so let the browser move the caret visually and
+        // only keep it out of the prefix/suffix afterwards
+        if ((key === "ArrowLeft" || key === "ArrowRight") && isRtlInput(el)) {
+          clearTimeout(caretTimeoutRef.current);
+          caretTimeoutRef.current = setTimeout(() => {
+            if (el.selectionStart === null || el.selectionStart !== el.selectionEnd) return;
+            const caretPosition = correctCaretPosition(el.value, el.selectionStart);
+            if (caretPosition !== el.selectionStart) {
+              setPatchedCaretPosition(el, caretPosition, el.value);
+            }
+          });
+          onKeyDownProp?.(e);
+          return;
+        }
+
         if (key === "ArrowLeft" || key === "Backspace") {
           expectedCaretPosition = (selectionStart || 0) - 1;
         } else if (key === "ArrowRight") {
@@ -573,6 +786,7 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
         decimalScale,
         fixedDecimalScale,
         getNumberRegex,
+        getNegationBounds,
         format,
         prefix,
         suffix,
@@ -584,7 +798,7 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
         formatNumString,
         applyLeadingZeroFix,
         onValueChange,
-        name,
+        createValueObject,
         readOnly,
         disabled,
         allowedDecimalSeparators,
@@ -615,7 +829,8 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
 
         onFocusProp?.(e);
 
-        setTimeout(() => {
+        clearTimeout(caretTimeoutRef.current);
+        caretTimeoutRef.current = setTimeout(() => {
           const { selectionStart, value } = el;
           const caretPosition = correctCaretPosition(value, selectionStart || 0);
 
@@ -632,6 +847,9 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
       validateProps();
     }, [validateProps]);
 
+    // Drop a pending caret fix when the input unmounts
+    useEffect(() => () => clearTimeout(caretTimeoutRef.current), []);
+
     useEffect(() => {
       const prevProps = prevPropsRef.current;
 
@@ -662,12 +880,7 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
             });
 
             if (onValueChange) {
-              const valueObj: ValueObject = {
-                formattedValue,
-                value: newNumAsString,
-                floatValue: parseFloat(newNumAsString),
-                name,
-              };
+              const valueObj = createValueObject(formattedValue, newNumAsString);
               onValueChange(valueObj, { source: "prop" });
             }
           }
@@ -684,7 +897,7 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
       formatValueProp,
       removeFormatting,
       onValueChange,
-      name,
+      createValueObject,
     ]);
 
     useEffect(() => {
@@ -702,9 +915,13 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
     const resolvedInputMode = useMemo(() => {
       if (inputModeProp) return inputModeProp;
       if (format) return undefined;
-      if (decimalScale === 0) return "numeric" as const;
+      const { maximum } = resolveFractionDigits({
+        decimalScale,
+        maximumFractionDigits,
+      });
+      if (maximum === 0) return "numeric" as const;
       return "decimal" as const;
-    }, [inputModeProp, format, decimalScale]);
+    }, [inputModeProp, format, decimalScale, maximumFractionDigits]);
 
     const inputProps = useMemo(
       () => ({
@@ -748,8 +965,14 @@ const CurrencyFormat = forwardRef<HTMLInputElement, CurrencyFormatProps>(
 
     // ── Render ────────────────────────────────────────────────────────────────
     if (displayType === "text") {
+      // Typed segments are only available for number formatting, not patterns
+      const text = state.value || "";
+      const parts: CurrencyPart[] =
+        !format && state.numAsString
+          ? formatAsNumberToParts(state.numAsString)
+          : [{ type: "literal", value: text }];
       return renderText ? (
-        <>{renderText(state.value || "", otherProps)}</>
+        <>{renderText(text, otherProps, parts)}</>
       ) : (
         <span
           role="status"
@@ -0,0 +1,344 @@
+// Types
+/** Alphabetic code of every currency on ISO 4217 List One */
+export type CurrencyCode =
+  | "AED" | "AFN" | "ALL" | "AMD" | "AOA" | "ARS" | "AUD" | "AWG" | "AZN"
+  | "BAM" | "BBD" | "BDT" | "BHD" | "BIF" | "BMD" | "BND" | "BOB" | "BOV" | "BRL" | "BSD" | "BTN" | "BWP" | "BYN" | "BZD"
+  | "CAD" | "CDF" | "CHE" | "CHF" | "CHW" | "CLF" | "CLP" | "CNY" | "COP" | "COU" | "CRC" | "CUC" | "CUP" | "CVE" | "CZK"
+  | "DJF" | "DKK" | "DOP" | "DZD"
+  | "EGP" | "ERN" | "ETB" | "EUR"
+  | "FJD" | "FKP"
+  | "GBP" | "GEL" | "GHS" | "GIP" | "GMD" | "GNF" | "GTQ" | "GYD"
+  | "HKD" | "HNL" | "HTG" | "HUF"
+  | "IDR" | "ILS" | "INR" | "IQD" | "IRR" | "ISK"
+  | "JMD" | "JOD" | "JPY"
+  | "KES" | "KGS" | "KHR" | "KMF" | "KPW" | "KRW" | "KWD" | "KYD" | "KZT"
+  | "LAK" | "LBP" | "LKR" | "LRD" | "LSL" | "LYD"
+  | "MAD" | "MDL" | "MGA" | "MKD" | "MMK" | "MNT" | "MOP" | "MRU" | "MUR" | "MVR" | "MWK" | "MXN" | "MXV" | "MYR" | "MZN"
+  | "NAD" | "NGN" | "NIO" | "NOK" | "NPR" | "NZD"
+  | "OMR"
+  | "PAB" | "PEN" | "PGK" | "PHP" | "PKR" | "PLN" | "PYG"
+  | "QAR"
+  | "RON" | "RSD" | "RUB" | "RWF"
+  | "SAR" | "SBD" | "SCR" | "SDG" | "SEK" | "SGD" | "SHP" | "SLE" | "SLL" | "SOS" | "SRD" | "SSP" | "STN" | "SVC" | "SYP" | "SZL"
+  | "THB" | "TJS" | "TMT" | "TND" | "TOP" | "TRY" | "TTD" | "TWD" | "TZS"
+  | "UAH" | "UGX" | "USD" | "USN" | "UYI" | "UYU" | "UYW" | "UZS"
+  | "VED" | "VES" | "VND" | "VUV"
+  | "WST"
+  | "XAF" | "XAG" | "XAU" | "XBA" | "XBB" | "XBC" | "XBD" | "XCD" | "XCG" | "XDR" | "XOF" | "XPD" | "XPF" | "XPT" | "XSU" | "XTS" | "XUA" | "XXX"
+  | "YER"
+  | "ZAR" | "ZMW" | "ZWG";
+
+/** Alphabetic code of a withdrawn currency kept for historical amounts */
+export type WithdrawnCurrencyCode =
+  | "ANG" | "ATS" | "BEF" | "BGN" | "BYR" | "CYP" | "DEM" | "EEK" | "ESP" | "FIM" | "FRF" | "GRD" | "HRK" | "IEP"
+  | "ITL" | "LTL" | "LUF" | "LVL" | "MRO" | "MTL" | "NLG" | "PTE" | "ROL" | "SIT" | "SKK" | "STD" | "TRL" | "VEF"
+  | "ZMK" | "ZWL";
+
+export interface Iso4217Currency {
+  /** Alphabetic code ("USD") */
+  code: CurrencyCode | WithdrawnCurrencyCode;
+  /** Numeric code, zero-padded to three digits ("008") */
+  numericCode: string;
+  /** ISO English name */
+  name: string;
+  /** Digits after the decimal point; null where ISO gives none (XAU, XDR) */
+  minorUnits: number | null;
+  /** ISO 3166-1 alpha-2 codes of the territories using it */
+  territories: string[];
+  /** Fund code (BOV, CLF, USN …) rather than a circulating currency */
+  fund?: boolean;
+  /** Precious metal (XAU, XAG, XPD, XPT) */
+  preciousMetal?: boolean;
+  /** Month the code was withdrawn ("2023-01"); set on withdrawn currencies only */
+  withdrawn?: string;
+}
+
+/** ISO 4217 amendment month the data below reflects */
+export const iso4217Version = "2026-01";
+
+// Active currencies (List One)
+// Each entry is its own export so bundlers keep only the ones an app uses.
+export const AED: Iso4217Currency = { code: "AED", numericCode: "784", name: "UAE Dirham", minorUnits: 2, territories: ["AE"] };
+export const AFN: Iso4217Currency = { code: "AFN", numericCode: "971", name: "Afghani", minorUnits: 2, territories: ["AF"] };
+export const ALL: Iso4217Currency = { code: "ALL", numericCode: "008", name: "Lek", minorUnits: 2, territories: ["AL"] };
+export const AMD: Iso4217Currency = { code: "AMD", numericCode: "051", name: "Armenian Dram", minorUnits: 2, territories: ["AM"] };
+export const AOA: Iso4217Currency = { code: "AOA", numericCode: "973", name: "Kwanza", minorUnits: 2, territories: ["AO"] };
+export const ARS: Iso4217Currency = { code: "ARS", numericCode: "032", name: "Argentine Peso", minorUnits: 2, territories: ["AR"] };
+export const AUD: Iso4217Currency = { code: "AUD", numericCode: "036", name: "Australian Dollar", minorUnits: 2, territories: ["AU", "CC", "CX", "HM", "KI", "NF", "NR", "TV"] };
+export const AWG: Iso4217Currency = { code: "AWG", numericCode: "533", name: "Aruban Florin", minorUnits: 2, territories: ["AW"] };
+export const AZN: Iso4217Currency = { code: "AZN", numericCode: "944", name: "Azerbaijan Manat", minorUnits: 2, territories: ["AZ"] };
+export const BAM: Iso4217Currency = { code: "BAM", numericCode: "977", name: "Convertible Mark", minorUnits: 2, territories: ["BA"] };
+export const BBD: Iso4217Currency = { code: "BBD", numericCode: "052", name: "Barbados Dollar", minorUnits: 2, territories: ["BB"] };
+export const BDT: Iso4217Currency = { code: "BDT", numericCode: "050", name: "Taka", minorUnits: 2, territories: ["BD"] };
+export const BHD: Iso4217Currency = { code: "BHD", numericCode: "048", name: "Bahraini Dinar", minorUnits: 3, territories: ["BH"] };
+export const BIF: Iso4217Currency = { code: "BIF", numericCode: "108", name: "Burundi Franc", minorUnits: 0, territories: ["BI"] };
+export const BMD: Iso4217Currency = { code: "BMD", numericCode: "060", name: "Bermudian Dollar", minorUnits: 2, territories: ["BM"] };
+export const BND: Iso4217Currency = { code: "BND", numericCode: "096", name: "Brunei Dollar", minorUnits: 2, territories: ["BN"] };
+export const BOB: Iso4217Currency = { code: "BOB", numericCode: "068", name: "Boliviano", minorUnits: 2, territories: ["BO"] };
+export const BOV: Iso4217Currency = { code: "BOV", numericCode: "984", name: "Mvdol", minorUnits: 2, territories: ["BO"], fund: true };
+export const BRL: Iso4217Currency = { code: "BRL", numericCode: "986", name: "Brazilian Real", minorUnits: 2, territories: ["BR"] };
+export const BSD: Iso4217Currency = { code: "BSD", numericCode: "044", name: "Bahamian Dollar", minorUnits: 2, territories: ["BS"] };
+export const BTN: Iso4217Currency = { code: "BTN", numericCode: "064", name: "Ngultrum", minorUnits: 2, territories: ["BT"] };
+export const BWP: Iso4217Currency = { code: "BWP", numericCode: "072", name: "Pula", minorUnits: 2, territories: ["BW"] };
+export const BYN: Iso4217Currency = { code: "BYN", numericCode: "933", name: "Belarusian Ruble", minorUnits: 2, territories: ["BY"] };
+export const BZD: Iso4217Currency = { code: "BZD", numericCode: "084", name: "Belize Dollar", minorUnits: 2, territories: ["BZ"] };
+export const CAD: Iso4217Currency = { code: "CAD", numericCode: "124", name: "Canadian Dollar", minorUnits: 2, territories: ["CA"] };
+export const CDF: Iso4217Currency = { code: "CDF", numericCode: "976", name: "Congolese Franc", minorUnits: 2, territories: ["CD"] };
+export const CHE: Iso4217Currency = { code: "CHE", numericCode: "947", name: "WIR Euro", minorUnits: 2, territories: ["CH"], fund: true };
+export const CHF: Iso4217Currency = { code: "CHF", numericCode: "756", name: "Swiss Franc", minorUnits: 2, territories: ["CH", "LI"] };
+export const CHW: Iso4217Currency = { code: "CHW", numericCode: "948", name: "WIR Franc", minorUnits: 2, territories: ["CH"], fund: true };
+export const CLF: Iso4217Currency = { code: "CLF", numericCode: "990", name: "Unidad de Fomento", minorUnits: 4, territories: ["CL"], fund: true };
+export const CLP: Iso4217Currency = { code: "CLP", numericCode: "152", name: "Chilean Peso", minorUnits: 0, territories: ["CL"] };
+export const CNY: Iso4217Currency = { code: "CNY", numericCode: "156", name: "Yuan Renminbi", minorUnits: 2, territories: ["CN"] };
+export const COP: Iso4217Currency = { code: "COP", numericCode: "170", name: "Colombian Peso", minorUnits: 2, territories: ["CO"] };
+export const COU: Iso4217Currency = { code: "COU", numericCode: "970", name: "Unidad de Valor Real", minorUnits: 2, territories: ["CO"], fund: true };
+export const CRC: Iso4217Currency = { code: "CRC", numericCode: "188", name: "Costa Rican Colon", minorUnits: 2, territories: ["CR"] };
+export const CUC: Iso4217Currency = { code: "CUC", numericCode: "931", name: "Peso Convertible", minorUnits: 2, territories: ["CU"] };
+export const CUP: Iso4217Currency = { code: "CUP", numericCode: "192", name: "Cuban Peso", minorUnits: 2, territories: ["CU"] };
+export const CVE: Iso4217Currency = { code: "CVE", numericCode: "132", name: "Cabo Verde Escudo", minorUnits: 2, territories: ["CV"] };
+export const CZK: Iso4217Currency = { code: "CZK", numericCode: "203", name: "Czech Koruna", minorUnits: 2, territories: ["CZ"] };
+export const DJF: Iso4217Currency = { code: "DJF", numericCode: "262", name: "Djibouti Franc", minorUnits: 0, territories: ["DJ"] };
+export const DKK: Iso4217Currency = { code: "DKK", numericCode: "208", name: "Danish Krone", minorUnits: 2, territories: ["DK", "FO", "GL"] };
+export const DOP: Iso4217Currency = { code: "DOP", numericCode: "214", name: "Dominican Peso", minorUnits: 2, territories: ["DO"] };
+export const DZD: Iso4217Currency = { code: "DZD", numericCode: "012", name: "Algerian Dinar", minorUnits: 2, territories: ["DZ"] };
+export const EGP: Iso4217Currency = { code: "EGP", numericCode: "818", name: "Egyptian Pound", minorUnits: 2, territories: ["EG"] };
+export const ERN: Iso4217Currency = { code: "ERN", numericCode: "232", name: "Nakfa", minorUnits: 2, territories: ["ER"] };
+export const ETB: Iso4217Currency = { code: "ETB", numericCode: "230", name: "Ethiopian Birr", minorUnits: 2, territories: ["ET"] };
+export const EUR: Iso4217Currency = { code: "EUR", numericCode: "978", name: "Euro", minorUnits: 2, territories: ["AD", "AT", "AX", "BE", "BG", "BL", "CY", "DE", "EE", "ES", "FI", "FR", "GF", "GP", "GR", "HR", "IE", "IT", "LT", "LU", "LV", "MC", "ME", "MF", "MQ", "MT", "NL", "PM", "PT", "RE", "SI", "SK", "SM", "TF", "VA", "YT"] };
+export const FJD: Iso4217Currency = { code: "FJD", numericCode: "242", name: "Fiji Dollar", minorUnits: 2, territories: ["FJ"] };
+export const FKP: Iso4217Currency = { code: "FKP", numericCode: "238", name: "Falkland Islands Pound", minorUnits: 2, territories: ["FK"] };
+export const GBP: Iso4217Currency = { code: "GBP", numericCode: "826", name: "Pound Sterling", minorUnits: 2, territories: ["GB", "GG", "IM", "JE"] };
+export const GEL: Iso4217Currency = { code: "GEL", numericCode: "981", name: "Lari", minorUnits: 2, territories: ["GE"] };
+export const GHS: Iso4217Currency = { code: "GHS", numericCode: "936", name: "Ghana Cedi", minorUnits: 2, territories: ["GH"] };
+export const GIP: Iso4217Currency = { code: "GIP", numericCode: "292", name: "Gibraltar Pound", minorUnits: 2, territories: ["GI"] };
+export const GMD: Iso4217Currency = { code: "GMD", numericCode: "270", name: "Dalasi", minorUnits: 2, territories: ["GM"] };
+export const GNF: Iso4217Currency = { code: "GNF", numericCode: "324", name: "Guinean Franc", minorUnits: 0, territories: ["GN"] };
+export const GTQ: Iso4217Currency = { code: "GTQ", numericCode: "320", name: "Quetzal", minorUnits: 2, territories: ["GT"] };
+export const GYD: Iso4217Currency = { code: "GYD", numericCode: "328", name: "Guyana Dollar", minorUnits: 2, territories: ["GY"] };
+export const HKD: Iso4217Currency = { code: "HKD", numericCode: "344", name: "Hong Kong Dollar", minorUnits: 2, territories: ["HK"] };
+export const HNL: Iso4217Currency = { code: "HNL", numericCode: "340", name: "Lempira", minorUnits: 2, territories: ["HN"] };
+export const HTG: Iso4217Currency = { code: "HTG", numericCode: "332", name: "Gourde", minorUnits: 2, territories: ["HT"] };
+export const HUF: Iso4217Currency = { code: "HUF", numericCode: "348", name: "Forint", minorUnits: 2, territories: ["HU"] };
+export const IDR: Iso4217Currency = { code: "IDR", numericCode: "360", name: "Rupiah", minorUnits: 2, territories: ["ID"] };
+export const ILS: Iso4217Currency = { code: "ILS", numericCode: "376", name: "New Israeli Sheqel", minorUnits: 2, territories: ["IL"] };
+export const INR: Iso4217Currency = { code: "INR", numericCode: "356", name: "Indian Rupee", minorUnits: 2, territories: ["IN", "BT"] };
+export const IQD: Iso4217Currency = { code: "IQD", numericCode: "368", name: "Iraqi Dinar", minorUnits: 3, territories: ["IQ"] };
+export const IRR: Iso4217Currency = { code: "IRR", numericCode: "364", name: "Iranian Rial", minorUnits: 2, territories: ["IR"] };
+export const ISK: Iso4217Currency = { code: "ISK", numericCode: "352", name: "Iceland Krona", minorUnits: 0, territories: ["IS"] };
+export const JMD: Iso4217Currency = { code: "JMD", numericCode: "388", name: "Jamaican Dollar", minorUnits: 2, territories: ["JM"] };
+export const JOD: Iso4217Currency = { code: "JOD", numericCode: "400", name: "Jordanian Dinar", minorUnits: 3, territories: ["JO"] };
+export const JPY: Iso4217Currency = { code: "JPY", numericCode: "392", name: "Yen", minorUnits: 0, territories: ["JP"] };
+export const KES: Iso4217Currency = { code: "KES", numericCode: "404", name: "Kenyan Shilling", minorUnits: 2, territories: ["KE"] };
+export const KGS: Iso4217Currency = { code: "KGS", numericCode: "417", name: "Som", minorUnits: 2, territories: ["KG"] };
+export const KHR: Iso4217Currency = { code: "KHR", numericCode: "116", name: "Riel", minorUnits: 2, territories: ["KH"] };
+export const KMF: Iso4217Currency = { code: "KMF", numericCode: "174", name: "Comorian Franc", minorUnits: 0, territories: ["KM"] };
+export const KPW: Iso4217Currency = { code: "KPW", numericCode: "408", name: "North Korean Won", minorUnits: 2, territories: ["KP"] };
+export const KRW: Iso4217Currency = { code: "KRW", numericCode: "410", name: "Won", minorUnits: 0, territories: ["KR"] };
+export const KWD: Iso4217Currency = { code: "KWD", numericCode: "414", name: "Kuwaiti Dinar", minorUnits: 3, territories: ["KW"] };
+export const KYD: Iso4217Currency = { code: "KYD", numericCode: "136", name: "Cayman Islands Dollar", minorUnits: 2, territories: ["KY"] };
+export const KZT: Iso4217Currency = { code: "KZT", numericCode: "398", name: "Tenge", minorUnits: 2, territories: ["KZ"] };
+export const LAK: Iso4217Currency = { code: "LAK", numericCode: "418", name: "Lao Kip", minorUnits: 2, territories: ["LA"] };
+export const LBP: Iso4217Currency = { code: "LBP", numericCode: "422", name: "Lebanese Pound", minorUnits: 2, territories: ["LB"] };
+export const LKR: Iso4217Currency = { code: "LKR", numericCode: "144", name: "Sri Lanka Rupee", minorUnits: 2, territories: ["LK"] };
+export const LRD: Iso4217Currency = { code: "LRD", numericCode: "430", name: "Liberian Dollar", minorUnits: 2, territories: ["LR"] };
+export const LSL: Iso4217Currency = { code: "LSL", numericCode: "426", name: "Loti", minorUnits: 2, territories: ["LS"] };
+export const LYD: Iso4217Currency = { code: "LYD", numericCode: "434", name: "Libyan Dinar", minorUnits: 3, territories: ["LY"] };
+export const MAD: Iso4217Currency = { code: "MAD", numericCode: "504", name: "Moroccan Dirham", minorUnits: 2, territories: ["MA", "EH"] };
+export const MDL: Iso4217Currency = { code: "MDL", numericCode: "498", name: "Moldovan Leu", minorUnits: 2, territories: ["MD"] };
+export const MGA: Iso4217Currency = { code: "MGA", numericCode: "969", name: "Malagasy Ariary", minorUnits: 2, territories: ["MG"] };
+export const MKD: Iso4217Currency = { code: "MKD", numericCode: "807", name: "Denar", minorUnits: 2, territories: ["MK"] };
+export const MMK: Iso4217Currency = { code: "MMK", numericCode: "104", name: "Kyat", minorUnits: 2, territories: ["MM"] };
+export const MNT: Iso4217Currency = { code: "MNT", numericCode: "496", name: "Tugrik", minorUnits: 2, territories: ["MN"] };
+export const MOP: Iso4217Currency = { code: "MOP", numericCode: "446", name: "Pataca", minorUnits: 2, territories: ["MO"] };
+export const MRU: Iso4217Currency = { code: "MRU", numericCode: "929", name: "Ouguiya", minorUnits: 2, territories: ["MR"] };
+export const MUR: Iso4217Currency = { code: "MUR", numericCode: "480", name: "Mauritius Rupee", minorUnits: 2, territories: ["MU"] };
+export const MVR: Iso4217Currency = { code: "MVR", numericCode: "462", name: "Rufiyaa", minorUnits: 2, territories: ["MV"] };
+export const MWK: Iso4217Currency = { code: "MWK", numericCode: "454", name: "Malawi Kwacha", minorUnits: 2, territories: ["MW"] };
+export const MXN: Iso4217Currency = { code: "MXN", numericCode: "484", name: "Mexican Peso", minorUnits: 2, territories: ["MX"] };
+export const MXV: Iso4217Currency = { code: "MXV", numericCode: "979", name: "Mexican Unidad de Inversion (UDI)", minorUnits: 2, territories: ["MX"], fund: true };
+export const MYR: Iso4217Currency = { code: "MYR", numericCode: "458", name: "Malaysian Ringgit", minorUnits: 2, territories: ["MY"] };
+export const MZN: Iso4217Currency = { code: "MZN", numericCode: "943", name: "Mozambique Metical", minorUnits: 2, territories: ["MZ"] };
+export const NAD: Iso4217Currency = { code: "NAD", numericCode: "516", name: "Namibia Dollar", minorUnits: 2, territories: ["NA"] };
+export const NGN: Iso4217Currency = { code: "NGN", numericCode: "566", name: "Naira", minorUnits: 2, territories: ["NG"] };
+export const NIO: Iso4217Currency = { code: "NIO", numericCode: "558", name: "Cordoba Oro", minorUnits: 2, territories: ["NI"] };
+export const NOK: Iso4217Currency = { code: "NOK", numericCode: "578", name: "Norwegian Krone", minorUnits: 2, territories: ["NO", "BV", "SJ"] };
+export const NPR: Iso4217Currency = { code: "NPR", numericCode: "524", name: "Nepalese Rupee", minorUnits: 2, territories: ["NP"] };
+export const NZD: Iso4217Currency = { code: "NZD", numericCode: "554", name: "New Zealand Dollar", minorUnits: 2, territories: ["NZ", "CK", "NU", "PN", "TK"] };
+export const OMR: Iso4217Currency = { code: "OMR", numericCode: "512", name: "Rial Omani", minorUnits: 3, territories: ["OM"] };
+export const PAB: Iso4217Currency = { code: "PAB", numericCode: "590", name: "Balboa", minorUnits: 2, territories: ["PA"] };
+export const PEN: Iso4217Currency = { code: "PEN", numericCode: "604", name: "Sol", minorUnits: 2, territories: ["PE"] };
+export const PGK: Iso4217Currency = { code: "PGK", numericCode: "598", name: "Kina", minorUnits: 2, territories: ["PG"] };
+export const PHP: Iso4217Currency = { code: "PHP", numericCode: "608", name: "Philippine Peso", minorUnits: 2, territories: ["PH"] };
+export const PKR: Iso4217Currency = { code: "PKR", numericCode: "586", name: "Pakistan Rupee", minorUnits: 2, territories: ["PK"] };
+export const PLN: Iso4217Currency = { code: "PLN", numericCode: "985", name: "Zloty", minorUnits: 2, territories: ["PL"] };
+export const PYG: Iso4217Currency = { code: "PYG", numericCode: "600", name: "Guarani", minorUnits: 0, territories: ["PY"] };
+export const QAR: Iso4217Currency = { code: "QAR", numericCode: "634", name: "Qatari Rial", minorUnits: 2, territories: ["QA"] };
+export const RON: Iso4217Currency = { code: "RON", numericCode: "946", name: "Romanian Leu", minorUnits: 2, territories: ["RO"] };
+export const RSD: Iso4217Currency = { code: "RSD", numericCode: "941", name: "Serbian Dinar", minorUnits: 2, territories: ["RS"] };
+export const RUB: Iso4217Currency = { code: "RUB", numericCode: "643", name: "Russian Ruble", minorUnits: 2, territories: ["RU"] };
+export const RWF: Iso4217Currency = { code: "RWF", numericCode: "646", name: "Rwanda Franc", minorUnits: 0, territories: ["RW"] };
+export const SAR: Iso4217Currency = { code: "SAR", numericCode: "682", name: "Saudi Riyal", minorUnits: 2, territories: ["SA"] };
+export const SBD: Iso4217Currency = { code: "SBD", numericCode: "090", name: "Solomon Islands Dollar", minorUnits: 2, territories: ["SB"] };
+export const SCR: Iso4217Currency = { code: "SCR", numericCode: "690", name: "Seychelles Rupee", minorUnits: 2, territories: ["SC"] };
+export const SDG: Iso4217Currency = { code: "SDG", numericCode: "938", name: "Sudanese Pound", minorUnits: 2, territories: ["SD"] };
+export const SEK: Iso4217Currency = { code: "SEK", numericCode: "752", name: "Swedish Krona", minorUnits: 2, territories: ["SE"] };
+export const SGD: Iso4217Currency = { code: "SGD", numericCode: "702", name: "Singapore Dollar", minorUnits: 2, territories: ["SG"] };
+export const SHP: Iso4217Currency = { code: "SHP", numericCode: "654", name: "Saint Helena Pound", minorUnits: 2, territories: ["SH"] };
+export const SLE: Iso4217Currency = { code: "SLE", numericCode: "925", name: "Leone", minorUnits: 2, territories: ["SL"] };
+export const SLL: Iso4217Currency = { code: "SLL", numericCode: "694", name: "Leone", minorUnits: 2, territories: ["SL"] };
+export const SOS: Iso4217Currency = { code: "SOS", numericCode: "706", name: "Somali Shilling", minorUnits: 2, territories: ["SO"] };
+export const SRD: Iso4217Currency = { code: "SRD", numericCode: "968", name: "Surinam Dollar", minorUnits: 2, territories: ["SR"] };
+export const SSP: Iso4217Currency = { code: "SSP", numericCode: "728", name: "South Sudanese Pound", minorUnits: 2, territories: ["SS"] };
+export const STN: Iso4217Currency = { code: "STN", numericCode: "930", name: "Dobra", minorUnits: 2, territories: ["ST"] };
+export const SVC: Iso4217Currency = { code: "SVC", numericCode: "222", name: "El Salvador Colon", minorUnits: 2, territories: ["SV"] };
+export const SYP: Iso4217Currency = { code: "SYP", numericCode: "760", name: "Syrian Pound", minorUnits: 2, territories: ["SY"] };
+export const SZL: Iso4217Currency = { code: "SZL", numericCode: "748", name: "Lilangeni", minorUnits: 2, territories: ["SZ"] };
+export const THB: Iso4217Currency = { code: "THB", numericCode: "764", name: "Baht", minorUnits: 2, territories: ["TH"] };
+export const TJS: Iso4217Currency = { code: "TJS", numericCode: "972", name: "Somoni", minorUnits: 2, territories: ["TJ"] };
+export const TMT: Iso4217Currency = { code: "TMT", numericCode: "934", name: "Turkmenistan New Manat", minorUnits: 2, territories: ["TM"] };
+export const TND: Iso4217Currency = { code: "TND", numericCode: "788", name: "Tunisian Dinar", minorUnits: 3, territories: ["TN"] };
+export const TOP: Iso4217Currency = { code: "TOP", numericCode: "776", name: "Pa’anga", minorUnits: 2, territories: ["TO"] };
+export const TRY: Iso4217Currency = { code: "TRY", numericCode: "949", name: "Turkish Lira", minorUnits: 2, territories: ["TR"] };
+export const TTD: Iso4217Currency = { code: "TTD", numericCode: "780", name: "Trinidad and Tobago Dollar", minorUnits: 2, territories: ["TT"] };
+export const TWD: Iso4217Currency = { code: "TWD", numericCode: "901", name: "New Taiwan Dollar", minorUnits: 2, territories: ["TW"] };
+export const TZS: Iso4217Currency = { code: "TZS", numericCode: "834", name: "Tanzanian Shilling", minorUnits: 2, territories: ["TZ"] };
+export const UAH: Iso4217Currency = { code: "UAH", numericCode: "980", name: "Hryvnia", minorUnits: 2, territories: ["UA"] };
+export const UGX: Iso4217Currency = { code: "UGX", numericCode: "800", name: "Uganda Shilling", minorUnits: 0, territories: ["UG"] };
+export const USD: Iso4217Currency = { code: "USD", numericCode: "840", name: "US Dollar", minorUnits: 2, territories: ["US", "AS", "BQ", "EC", "FM", "GU", "HT", "IO", "MH", "MP", "PA", "PR", "PW", "SV", "TC", "TL", "UM", "VG", "VI"] };
+export const USN: Iso4217Currency = { code: "USN", numericCode: "997", name: "US Dollar (Next day)", minorUnits: 2, territories: ["US"], fund: true };
+export const UYI: Iso4217Currency = { code: "UYI", numericCode: "940", name: "Uruguay Peso en Unidades Indexadas (UI)", minorUnits: 0, territories: ["UY"], fund: true };
+export const UYU: Iso4217Currency = { code: "UYU", numericCode: "858", name: "Peso Uruguayo", minorUnits: 2, territories: ["UY"] };
+export const UYW: Iso4217Currency = { code: "UYW", numericCode: "927", name: "Unidad Previsional", minorUnits: 4, territories: ["UY"] };
+export const UZS: Iso4217Currency = { code: "UZS", numericCode: "860", name: "Uzbekistan Sum", minorUnits: 2, territories: ["UZ"] };
+export const VED: Iso4217Currency = { code: "VED", numericCode: "926", name: "Bolívar Soberano", minorUnits: 2, territories: ["VE"] };
+export const VES: Iso4217Currency = { code: "VES", numericCode: "928", name: "Bolívar Soberano", minorUnits: 2, territories: ["VE"] };
+export const VND: Iso4217Currency = { code: "VND", numericCode: "704", name: "Dong", minorUnits: 0, territories: ["VN"] };
+export const VUV: Iso4217Currency = { code: "VUV", numericCode: "548", name: "Vatu", minorUnits: 0, territories: ["VU"] };
+export const WST: Iso4217Currency = { code: "WST", numericCode: "882", name: "Tala", minorUnits: 2, territories: ["WS"] };
+export const XAF: Iso4217Currency = { code: "XAF", numericCode: "950", name: "CFA Franc BEAC", minorUnits: 0, territories: ["CM", "CF", "CG", "GA", "GQ", "TD"] };
+export const XAG: Iso4217Currency = { code: "XAG", numericCode: "961", name: "Silver", minorUnits: null, territories: [], preciousMetal: true };
+export const XAU: Iso4217Currency = { code: "XAU", numericCode: "959", name: "Gold", minorUnits: null, territories: [], preciousMetal: true };
+export const XBA: Iso4217Currency = { code: "XBA", numericCode: "955", name: "Bond Markets Unit European Composite Unit (EURCO)", minorUnits: null, territories: [] };
+export const XBB: Iso4217Currency = { code: "XBB", numericCode: "956", name: "Bond Markets Unit European Monetary Unit (E.M.U.-6)", minorUnits: null, territories: [] };
+export const XBC: Iso4217Currency = { code: "XBC", numericCode: "957", name: "Bond Markets Unit European Unit of Account 9 (E.U.A.-9)", minorUnits: null, territories: [] };
+export const XBD: Iso4217Currency = { code: "XBD", numericCode: "958", name: "Bond Markets Unit European Unit of Account 17 (E.U.A.-17)", minorUnits: null, territories: [] };
+export const XCD: Iso4217Currency = { code: "XCD", numericCode: "951", name: "East Caribbean Dollar", minorUnits: 2, territories: ["AG", "AI", "DM", "GD", "KN", "LC", "MS", "VC"] };
+export const XCG: Iso4217Currency = { code: "XCG", numericCode: "532", name: "Caribbean Guilder", minorUnits: 2, territories: ["CW", "SX"] };
+export const XDR: Iso4217Currency = { code: "XDR", numericCode: "960", name: "SDR (Special Drawing Right)", minorUnits: null, territories: [] };
+export const XOF: Iso4217Currency = { code: "XOF", numericCode: "952", name: "CFA Franc BCEAO", minorUnits: 0, territories: ["BF", "BJ", "CI", "GW", "ML", "NE", "SN", "TG"] };
+export const XPD: Iso4217Currency = { code: "XPD", numericCode: "964", name: "Palladium", minorUnits: null, territories: [], preciousMetal: true };
+export const XPF: Iso4217Currency = { code: "XPF", numericCode: "953", name: "CFP Franc", minorUnits: 0, territories: ["NC", "PF", "WF"] };
+export const XPT: Iso4217Currency = { code: "XPT", numericCode: "962", name: "Platinum", minorUnits: null, territories: [], preciousMetal: true };
+export const XSU: Iso4217Currency = { code: "XSU", numericCode: "994", name: "Sucre", minorUnits: null, territories: [] };
+export const XTS: Iso4217Currency = { code: "XTS", numericCode: "963", name: "Codes specifically reserved for testing purposes", minorUnits: null, territories: [] };
+export const XUA: Iso4217Currency = { code: "XUA", numericCode: "965", name: "ADB Unit of Account", minorUnits: null, territories: [] };
+export const XXX: Iso4217Currency = { code: "XXX", numericCode: "999", name: "No currency", minorUnits: null, territories: [] };
+export const YER: Iso4217Currency = { code: "YER", numericCode: "886", name: "Yemeni Rial", minorUnits: 2, territories: ["YE"] };
+export const ZAR: Iso4217Currency = { code: "ZAR", numericCode: "710", name: "Rand", minorUnits: 2, territories: ["ZA", "LS", "NA"] };
+export const ZMW: Iso4217Currency = { code: "ZMW", numericCode: "967", name: "Zambian Kwacha", minorUnits: 2, territories: ["ZM"] };
+export const ZWG: Iso4217Currency = { code: "ZWG", numericCode: "924", name: "Zimbabwe Gold", minorUnits: 2, territories: ["ZW"] };
+
+// Withdrawn currencies (subset of List Three)
+export const ANG: Iso4217Currency = { code: "ANG", numericCode: "532", name: "Netherlands Antillean Guilder", minorUnits: 2, territories: ["CW", "SX"], withdrawn: "2025-06" };
+export const ATS: Iso4217Currency = { code: "ATS", numericCode: "040", name: "Schilling", minorUnits: 2, territories: ["AT"], withdrawn: "2002-03" };
+export const BEF: Iso4217Currency = { code: "BEF", numericCode: "056", name: "Belgian Franc", minorUnits: 0, territories: ["BE"], withdrawn: "2002-03" };
+export const BGN: Iso4217Currency = { code: "BGN", numericCode: "975", name: "Bulgarian Lev", minorUnits: 2, territories: ["BG"], withdrawn: "2026-01" };
+export const BYR: Iso4217Currency = { code: "BYR", numericCode: "974", name: "Belarusian Ruble", minorUnits: 0, territories: ["BY"], withdrawn: "2017-01" };
+export const CYP: Iso4217Currency = { code: "CYP", numericCode: "196", name: "Cyprus Pound", minorUnits: 2, territories: ["CY"], withdrawn: "2008-01" };
+export const DEM: Iso4217Currency = { code: "DEM", numericCode: "276", name: "Deutsche Mark", minorUnits: 2, territories: ["DE"], withdrawn: "2002-03" };
+export const EEK: Iso4217Currency = { code: "EEK", numericCode: "233", name: "Kroon", minorUnits: 2, territories: ["EE"], withdrawn: "2011-01" };
+export const ESP: Iso4217Currency = { code: "ESP", numericCode: "724", name: "Spanish Peseta", minorUnits: 0, territories: ["ES", "AD"], withdrawn: "2002-03" };
+export const FIM: Iso4217Currency = { code: "FIM", numericCode: "246", name: "Markka", minorUnits: 2, territories: ["FI", "AX"], withdrawn: "2002-03" };
+export const FRF: Iso4217Currency = { code: "FRF", numericCode: "250", name: "French Franc", minorUnits: 2, territories: ["FR", "AD", "GF", "GP", "MC", "MQ", "PM", "RE", "TF", "YT"], withdrawn: "2002-03" };
+export const GRD: Iso4217Currency = { code: "GRD", numericCode: "300", name: "Drachma", minorUnits: 0, territories: ["GR"], withdrawn: "2002-03" };
+export const HRK: Iso4217Currency = { code: "HRK", numericCode: "191", name: "Kuna", minorUnits: 2, territories: ["HR"], withdrawn: "2023-01" };
+export const IEP: Iso4217Currency = { code: "IEP", numericCode: "372", name: "Irish Pound", minorUnits: 2, territories: ["IE"], withdrawn: "2002-03" };
+export const ITL: Iso4217Currency = { code: "ITL", numericCode: "380", name: "Italian Lira", minorUnits: 0, territories: ["IT", "SM", "VA"], withdrawn: "2002-03" };
+export const LTL: Iso4217Currency = { code: "LTL", numericCode: "440", name: "Lithuanian Litas", minorUnits: 2, territories: ["LT"], withdrawn: "2015-01" };
+export const LUF: Iso4217Currency = { code: "LUF", numericCode: "442", name: "Luxembourg Franc", minorUnits: 0, territories: ["LU"], withdrawn: "2002-03" };
+export const LVL: Iso4217Currency = { code: "LVL", numericCode: "428", name: "Latvian Lats", minorUnits: 2, territories: ["LV"], withdrawn: "2014-01" };
+export const MRO: Iso4217Currency = { code: "MRO", numericCode: "478", name: "Ouguiya", minorUnits: 2, territories: ["MR"], withdrawn: "2017-12" };
+export const MTL: Iso4217Currency = { code: "MTL", numericCode: "470", name: "Maltese Lira", minorUnits: 2, territories: ["MT"], withdrawn: "2008-01" };
+export const NLG: Iso4217Currency = { code: "NLG", numericCode: "528", name: "Netherlands Guilder", minorUnits: 2, territories: ["NL"], withdrawn: "2002-03" };
+export const PTE: Iso4217Currency = { code: "PTE", numericCode: "620", name: "Portuguese Escudo", minorUnits: 0, territories: ["PT"], withdrawn: "2002-03" };
+export const ROL: Iso4217Currency = { code: "ROL", numericCode: "642", name: "Leu", minorUnits: 2, territories: ["RO"], withdrawn: "2005-06" };
+export const SIT: Iso4217Currency = { code: "SIT", numericCode: "705", name: "Tolar", minorUnits: 2, territories: ["SI"], withdrawn: "2007-01" };
+export const SKK: Iso4217Currency = { code: "SKK", numericCode: "703", name: "Slovak Koruna", minorUnits: 2, territories: ["SK"], withdrawn: "2009-01" };
+export const STD: Iso4217Currency = { code: "STD", numericCode: "678", name: "Dobra", minorUnits: 2, territories: ["ST"], withdrawn: "2017-12" };
+export const TRL: Iso4217Currency = { code: "TRL", numericCode: "792", name: "Old Turkish Lira", minorUnits: 0, territories: ["TR"], withdrawn: "2005-12" };
+export const VEF: Iso4217Currency = { code: "VEF", numericCode: "937", name: "Bolívar", minorUnits: 2, territories: ["VE"], withdrawn: "2018-08" };
+export const ZMK: Iso4217Currency = { code: "ZMK", numericCode: "894", name: "Zambian Kwacha", minorUnits: 2, territories: ["ZM"], withdrawn: "2013-01" };
+export const ZWL: Iso4217Currency = { code: "ZWL", numericCode: "932", name: "Zimbabwe Dollar", minorUnits: 2, territories: ["ZW"], withdrawn: "2024-09" };
+
+/**
+ * Every active currency by code
+ * Importing this pulls in the whole list; import single entries
+ * (`iso4217.USD`) when only a few are needed.
+ */
+export const iso4217Currencies: Record<CurrencyCode, Iso4217Currency> = {
+  AED, AFN, ALL, AMD, AOA, ARS, AUD, AWG, AZN,
+  BAM, BBD, BDT, BHD, BIF, BMD, BND, BOB, BOV, BRL, BSD, BTN, BWP, BYN, BZD,
+  CAD, CDF, CHE, CHF, CHW, CLF, CLP, CNY, COP, COU, CRC, CUC, CUP, CVE, CZK,
+  DJF, DKK, DOP, DZD,
+  EGP, ERN, ETB, EUR,
+  FJD, FKP,
+  GBP, GEL, GHS, GIP, GMD, GNF, GTQ, GYD,
+  HKD, HNL, HTG, HUF,
+  IDR, ILS, INR, IQD, IRR, ISK,
+  JMD, JOD, JPY,
+  KES, KGS, KHR, KMF, KPW, KRW, KWD, KYD, KZT,
+  LAK, LBP, LKR, LRD, LSL, LYD,
+  MAD, MDL, MGA, MKD, MMK, MNT, MOP, MRU, MUR, MVR, MWK, MXN, MXV, MYR, MZN,
+  NAD, NGN, NIO, NOK, NPR, NZD,
+  OMR,
+  PAB, PEN, PGK, PHP, PKR, PLN, PYG,
+  QAR,
+  RON, RSD, RUB, RWF,
+  SAR, SBD, SCR, SDG, SEK, SGD, SHP, SLE, SLL, SOS, SRD, SSP, STN, SVC, SYP, SZL,
+  THB, TJS, TMT, TND, TOP, TRY, TTD, TWD, TZS,
+  UAH, UGX, USD, USN, UYI, UYU, UYW, UZS,
+  VED, VES, VND, VUV,
+  WST,
+  XAF, XAG, XAU, XBA, XBB, XBC, XBD, XCD, XCG, XDR, XOF, XPD, XPF, XPT, XSU, XTS, XUA, XXX,
+  YER,
+  ZAR, ZMW, ZWG,
+};
+
+/** Withdrawn currencies by code, with the month each left ISO 4217 */
+export const withdrawnCurrencies: Record<WithdrawnCurrencyCode, Iso4217Currency> = {
+  ANG, ATS, BEF, BGN, BYR, CYP, DEM, EEK, ESP, FIM, FRF, GRD, HRK, IEP,
+  ITL, LTL, LUF, LVL, MRO, MTL, NLG, PTE, ROL, SIT, SKK, STD, TRL, VEF,
+  ZMK, ZWL,
+};
+
+/**
+ * Look up a currency by alphabetic or numeric code
+ * Active currencies win over withdrawn ones sharing a numeric code.
+ *
+ * @example
+ * findIso4217Currency("usd");  // → { code: "USD", numericCode: "840", ... }
+ * findIso4217Currency(978);    // → { code: "EUR", ... }
+ * findIso4217Currency("HRK");  // → { code: "HRK", ..., withdrawn: "2023-01" }
+ * findIso4217Currency("ABC");  // → undefined
+ */
+export const findIso4217Currency = (code: string | number): Iso4217Currency | undefined => {
+  const key = String(code).trim().toUpperCase();
+
+  if (/^\d{1,3}$/.test(key)) {
+    const numericCode = ("00" + key).slice(-3);
+    const matches = (entry: Iso4217Currency) => entry.numericCode === numericCode;
+    return (
+      Object.keys(iso4217Currencies)
+        .map((alpha) => iso4217Currencies[alpha as CurrencyCode])
+        .find(matches) ||
+      Object.keys(withdrawnCurrencies)
+        .map((alpha) => withdrawnCurrencies[alpha as WithdrawnCurrencyCode])
+        .find(matches)
+    );
+  }
+
+  return (
+    iso4217Currencies[key as CurrencyCode] ||
+    withdrawnCurrencies[key as WithdrawnCurrencyCode]
+  );
+};
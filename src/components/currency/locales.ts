@@ -1,4 +1,10 @@
-import { FormatCurrencyOptions, CompactDisplayOptions } from "./utils";
+import {
+  FormatCurrencyOptions,
+  CompactDisplayOptions,
+  CompactDisplayStyle,
+  CompactScale,
+} from "./utils";
+import type { CurrencyCode } from "./iso4217";
 
 export interface LocaleConfig extends FormatCurrencyOptions {
   locale: string;
@@ -7,46 +13,97 @@ export interface LocaleConfig extends FormatCurrencyOptions {
   compactDisplay?: CompactDisplayOptions;
 }
 
+/**
+ * How a currency is shown, as in Intl.NumberFormat
+ * - symbol: the locale's symbol ("$" in en-US, "US$" in en-GB)
+ * - narrowSymbol: the shortest symbol ("$")
+ * - code: the ISO code ("USD 5.00")
+ * - name: the localized plural name ("5.00 US dollars")
+ */
+export type CurrencyDisplay = "symbol" | "narrowSymbol" | "code" | "name";
+
+/** Spelled-out unit names of a currency in one language */
+export interface CurrencyUnitNames {
+  major: string;
+  /** Plural of `major` (default: `major`) */
+  majorPlural?: string;
+  minor?: string;
+  /** Plural of `minor` (default: `minor`) */
+  minorPlural?: string;
+}
+
+/** Rules a currency followed until a date, for historical amounts */
+export interface CurrencyRulePeriod {
+  /** First day these rules no longer applied ("2013-02-04") */
+  until: string;
+  decimalDigits?: number;
+  roundingIncrement?: number;
+  /** 0 when cash was not rounded at the time */
+  cashRoundingIncrement?: number;
+}
+
 export interface CurrencyInfo {
   code: string;
   symbol: string;
   decimalDigits: number;
   symbolPosition: "prefix" | "suffix";
   name: string;
+  /** Smallest step amounts are rounded to, when coarser than `decimalDigits` */
+  roundingIncrement?: number;
+  /** Step used when settling in cash (e.g. 0.05 for CHF coins) */
+  cashRoundingIncrement?: number;
+  /** Unit names per language ("en", "vi"), used by formatAmountInWords */
+  unitNames?: Record<string, CurrencyUnitNames>;
+  /** Month the code was withdrawn ("2023-01"); kept for historical amounts */
+  withdrawn?: string;
+  /** Earlier rules, oldest first; picked by getCurrencyConfig's `at` */
+  history?: CurrencyRulePeriod[];
+}
+
+/** A retired currency and the one that replaced it */
+export interface CurrencySuccession {
+  from: string;
+  to: string;
+  /** Fixed rate: units of `from` per one unit of `to` ("7.53450") */
+  rate: string;
+  /** First day amounts were no longer written in `from` ("2023-01-01") */
+  effective: string;
 }
 
 /**
  * ISO 4217 currency database
  * Knows decimal places, symbol, and position for each currency
+ * Withdrawn codes (HRK, BGN) stay for historical amounts and carry `withdrawn`;
+ * the full ISO list with numeric codes is in `iso4217`
  */
 export const currencyDatabase: Record<string, CurrencyInfo> = {
-  USD: { code: "USD", symbol: "$", decimalDigits: 2, symbolPosition: "prefix", name: "US Dollar" },
-  EUR: { code: "EUR", symbol: "€", decimalDigits: 2, symbolPosition: "suffix", name: "Euro" },
-  GBP: { code: "GBP", symbol: "£", decimalDigits: 2, symbolPosition: "prefix", name: "British Pound" },
-  JPY: { code: "JPY", symbol: "¥", decimalDigits: 0, symbolPosition: "prefix", name: "Japanese Yen" },
-  CNY: { code: "CNY", symbol: "¥", decimalDigits: 2, symbolPosition: "prefix", name: "Chinese Yuan" },
+  USD: { code: "USD", symbol: "$", decimalDigits: 2, symbolPosition: "prefix", name: "US Dollar", unitNames: { en: { major: "dollar", majorPlural: "dollars", minor: "cent", minorPlural: "cents" }, vi: { major: "đô la Mỹ", minor: "xu" } } },
+  EUR: { code: "EUR", symbol: "€", decimalDigits: 2, symbolPosition: "suffix", name: "Euro", unitNames: { en: { major: "euro", majorPlural: "euros", minor: "cent", minorPlural: "cents" }, vi: { major: "euro", minor: "xu" } } },
+  GBP: { code: "GBP", symbol: "£", decimalDigits: 2, symbolPosition: "prefix", name: "British Pound", unitNames: { en: { major: "pound", majorPlural: "pounds", minor: "penny", minorPlural: "pence" }, vi: { major: "bảng Anh", minor: "xu" } } },
+  JPY: { code: "JPY", symbol: "¥", decimalDigits: 0, symbolPosition: "prefix", name: "Japanese Yen", unitNames: { en: { major: "yen" }, vi: { major: "yên" } } },
+  CNY: { code: "CNY", symbol: "¥", decimalDigits: 2, symbolPosition: "prefix", name: "Chinese Yuan", unitNames: { en: { major: "yuan", minor: "fen" }, vi: { major: "nhân dân tệ", minor: "xu" } } },
   KRW: { code: "KRW", symbol: "₩", decimalDigits: 0, symbolPosition: "prefix", name: "South Korean Won" },
-  INR: { code: "INR", symbol: "₹", decimalDigits: 2, symbolPosition: "prefix", name: "Indian Rupee" },
-  VND: { code: "VND", symbol: "₫", decimalDigits: 0, symbolPosition: "suffix", name: "Vietnamese Dong" },
+  INR: { code: "INR", symbol: "₹", decimalDigits: 2, symbolPosition: "prefix", name: "Indian Rupee", unitNames: { en: { major: "rupee", majorPlural: "rupees", minor: "paisa", minorPlural: "paise" } } },
+  VND: { code: "VND", symbol: "₫", decimalDigits: 0, symbolPosition: "suffix", name: "Vietnamese Dong", unitNames: { en: { major: "dong" }, vi: { major: "đồng" } } },
   BRL: { code: "BRL", symbol: "R$", decimalDigits: 2, symbolPosition: "prefix", name: "Brazilian Real" },
   RUB: { code: "RUB", symbol: "₽", decimalDigits: 2, symbolPosition: "suffix", name: "Russian Ruble" },
   THB: { code: "THB", symbol: "฿", decimalDigits: 2, symbolPosition: "prefix", name: "Thai Baht" },
   IDR: { code: "IDR", symbol: "Rp", decimalDigits: 0, symbolPosition: "prefix", name: "Indonesian Rupiah" },
   MYR: { code: "MYR", symbol: "RM", decimalDigits: 2, symbolPosition: "prefix", name: "Malaysian Ringgit" },
-  SGD: { code: "SGD", symbol: "S$", decimalDigits: 2, symbolPosition: "prefix", name: "Singapore Dollar" },
+  SGD: { code: "SGD", symbol: "S$", decimalDigits: 2, symbolPosition: "prefix", name: "Singapore Dollar", unitNames: { en: { major: "Singapore dollar", majorPlural: "Singapore dollars", minor: "cent", minorPlural: "cents" } } },
   PHP: { code: "PHP", symbol: "₱", decimalDigits: 2, symbolPosition: "prefix", name: "Philippine Peso" },
   TWD: { code: "TWD", symbol: "NT$", decimalDigits: 0, symbolPosition: "prefix", name: "Taiwan Dollar" },
   HKD: { code: "HKD", symbol: "HK$", decimalDigits: 2, symbolPosition: "prefix", name: "Hong Kong Dollar" },
-  AUD: { code: "AUD", symbol: "A$", decimalDigits: 2, symbolPosition: "prefix", name: "Australian Dollar" },
-  CAD: { code: "CAD", symbol: "C$", decimalDigits: 2, symbolPosition: "prefix", name: "Canadian Dollar" },
-  NZD: { code: "NZD", symbol: "NZ$", decimalDigits: 2, symbolPosition: "prefix", name: "New Zealand Dollar" },
-  CHF: { code: "CHF", symbol: "CHF", decimalDigits: 2, symbolPosition: "prefix", name: "Swiss Franc" },
-  SEK: { code: "SEK", symbol: "kr", decimalDigits: 2, symbolPosition: "suffix", name: "Swedish Krona" },
-  NOK: { code: "NOK", symbol: "kr", decimalDigits: 2, symbolPosition: "prefix", name: "Norwegian Krone" },
-  DKK: { code: "DKK", symbol: "kr", decimalDigits: 2, symbolPosition: "prefix", name: "Danish Krone" },
+  AUD: { code: "AUD", symbol: "A$", decimalDigits: 2, symbolPosition: "prefix", name: "Australian Dollar", cashRoundingIncrement: 0.05, unitNames: { en: { major: "Australian dollar", majorPlural: "Australian dollars", minor: "cent", minorPlural: "cents" } } },
+  CAD: { code: "CAD", symbol: "C$", decimalDigits: 2, symbolPosition: "prefix", name: "Canadian Dollar", cashRoundingIncrement: 0.05, history: [{ until: "2013-02-04", cashRoundingIncrement: 0 }], unitNames: { en: { major: "Canadian dollar", majorPlural: "Canadian dollars", minor: "cent", minorPlural: "cents" } } },
+  NZD: { code: "NZD", symbol: "NZ$", decimalDigits: 2, symbolPosition: "prefix", name: "New Zealand Dollar", cashRoundingIncrement: 0.1, history: [{ until: "2006-11-01", cashRoundingIncrement: 0.05 }] },
+  CHF: { code: "CHF", symbol: "CHF", decimalDigits: 2, symbolPosition: "prefix", name: "Swiss Franc", cashRoundingIncrement: 0.05 },
+  SEK: { code: "SEK", symbol: "kr", decimalDigits: 2, symbolPosition: "suffix", name: "Swedish Krona", cashRoundingIncrement: 1, history: [{ until: "2010-10-01", cashRoundingIncrement: 0.5 }] },
+  NOK: { code: "NOK", symbol: "kr", decimalDigits: 2, symbolPosition: "prefix", name: "Norwegian Krone", cashRoundingIncrement: 1 },
+  DKK: { code: "DKK", symbol: "kr", decimalDigits: 2, symbolPosition: "prefix", name: "Danish Krone", cashRoundingIncrement: 0.5, history: [{ until: "2008-10-01", cashRoundingIncrement: 0.25 }] },
   PLN: { code: "PLN", symbol: "zł", decimalDigits: 2, symbolPosition: "suffix", name: "Polish Zloty" },
-  CZK: { code: "CZK", symbol: "Kč", decimalDigits: 2, symbolPosition: "suffix", name: "Czech Koruna" },
-  HUF: { code: "HUF", symbol: "Ft", decimalDigits: 0, symbolPosition: "suffix", name: "Hungarian Forint" },
+  CZK: { code: "CZK", symbol: "Kč", decimalDigits: 2, symbolPosition: "suffix", name: "Czech Koruna", cashRoundingIncrement: 1, history: [{ until: "2008-09-01", cashRoundingIncrement: 0.5 }] },
+  HUF: { code: "HUF", symbol: "Ft", decimalDigits: 0, symbolPosition: "suffix", name: "Hungarian Forint", cashRoundingIncrement: 5, history: [{ until: "2008-03-01", cashRoundingIncrement: 0 }] },
   TRY: { code: "TRY", symbol: "₺", decimalDigits: 2, symbolPosition: "prefix", name: "Turkish Lira" },
   ZAR: { code: "ZAR", symbol: "R", decimalDigits: 2, symbolPosition: "prefix", name: "South African Rand" },
   MXN: { code: "MXN", symbol: "$", decimalDigits: 2, symbolPosition: "prefix", name: "Mexican Peso" },
@@ -64,48 +121,254 @@ export const currencyDatabase: Record<string, CurrencyInfo> = {
   BDT: { code: "BDT", symbol: "৳", decimalDigits: 2, symbolPosition: "prefix", name: "Bangladeshi Taka" },
   UAH: { code: "UAH", symbol: "₴", decimalDigits: 2, symbolPosition: "suffix", name: "Ukrainian Hryvnia" },
   RON: { code: "RON", symbol: "lei", decimalDigits: 2, symbolPosition: "suffix", name: "Romanian Leu" },
-  BGN: { code: "BGN", symbol: "лв", decimalDigits: 2, symbolPosition: "suffix", name: "Bulgarian Lev" },
-  HRK: { code: "HRK", symbol: "kn", decimalDigits: 2, symbolPosition: "suffix", name: "Croatian Kuna" },
+  BGN: { code: "BGN", symbol: "лв", decimalDigits: 2, symbolPosition: "suffix", name: "Bulgarian Lev", withdrawn: "2026-01" },
+  HRK: { code: "HRK", symbol: "kn", decimalDigits: 2, symbolPosition: "suffix", name: "Croatian Kuna", withdrawn: "2023-01" },
   ISK: { code: "ISK", symbol: "kr", decimalDigits: 0, symbolPosition: "prefix", name: "Icelandic Krona" },
   BHD: { code: "BHD", symbol: "BD", decimalDigits: 3, symbolPosition: "prefix", name: "Bahraini Dinar" },
   KWD: { code: "KWD", symbol: "KD", decimalDigits: 3, symbolPosition: "prefix", name: "Kuwaiti Dinar" },
   OMR: { code: "OMR", symbol: "OMR", decimalDigits: 3, symbolPosition: "prefix", name: "Omani Rial" },
+  VES: { code: "VES", symbol: "Bs.S", decimalDigits: 2, symbolPosition: "prefix", name: "Venezuelan Bolívar" },
+  BYN: { code: "BYN", symbol: "Br", decimalDigits: 2, symbolPosition: "suffix", name: "Belarusian Ruble" },
+  MRU: { code: "MRU", symbol: "UM", decimalDigits: 2, symbolPosition: "suffix", name: "Mauritanian Ouguiya" },
+  STN: { code: "STN", symbol: "Db", decimalDigits: 2, symbolPosition: "suffix", name: "São Tomé Dobra" },
+  ZMW: { code: "ZMW", symbol: "ZK", decimalDigits: 2, symbolPosition: "prefix", name: "Zambian Kwacha" },
+  XCG: { code: "XCG", symbol: "Cg", decimalDigits: 2, symbolPosition: "prefix", name: "Caribbean Guilder" },
+  // Withdrawn, for historical amounts (see currencySuccessions)
+  ATS: { code: "ATS", symbol: "S", decimalDigits: 2, symbolPosition: "prefix", name: "Austrian Schilling", withdrawn: "2002-03" },
+  BEF: { code: "BEF", symbol: "fr.", decimalDigits: 0, symbolPosition: "suffix", name: "Belgian Franc", withdrawn: "2002-03" },
+  DEM: { code: "DEM", symbol: "DM", decimalDigits: 2, symbolPosition: "suffix", name: "German Mark", withdrawn: "2002-03" },
+  ESP: { code: "ESP", symbol: "Pts", decimalDigits: 0, symbolPosition: "suffix", name: "Spanish Peseta", withdrawn: "2002-03" },
+  FIM: { code: "FIM", symbol: "mk", decimalDigits: 2, symbolPosition: "suffix", name: "Finnish Markka", withdrawn: "2002-03" },
+  FRF: { code: "FRF", symbol: "F", decimalDigits: 2, symbolPosition: "suffix", name: "French Franc", withdrawn: "2002-03" },
+  GRD: { code: "GRD", symbol: "₯", decimalDigits: 0, symbolPosition: "suffix", name: "Greek Drachma", withdrawn: "2002-03" },
+  IEP: { code: "IEP", symbol: "IR£", decimalDigits: 2, symbolPosition: "prefix", name: "Irish Pound", withdrawn: "2002-03" },
+  ITL: { code: "ITL", symbol: "₤", decimalDigits: 0, symbolPosition: "prefix", name: "Italian Lira", withdrawn: "2002-03" },
+  LUF: { code: "LUF", symbol: "fr.", decimalDigits: 0, symbolPosition: "suffix", name: "Luxembourg Franc", withdrawn: "2002-03" },
+  NLG: { code: "NLG", symbol: "ƒ", decimalDigits: 2, symbolPosition: "prefix", name: "Dutch Guilder", withdrawn: "2002-03" },
+  PTE: { code: "PTE", symbol: "Esc.", decimalDigits: 0, symbolPosition: "suffix", name: "Portuguese Escudo", withdrawn: "2002-03" },
+  SIT: { code: "SIT", symbol: "SIT", decimalDigits: 2, symbolPosition: "suffix", name: "Slovenian Tolar", withdrawn: "2007-01" },
+  CYP: { code: "CYP", symbol: "£C", decimalDigits: 2, symbolPosition: "prefix", name: "Cypriot Pound", withdrawn: "2008-01" },
+  MTL: { code: "MTL", symbol: "Lm", decimalDigits: 2, symbolPosition: "prefix", name: "Maltese Lira", withdrawn: "2008-01" },
+  SKK: { code: "SKK", symbol: "Sk", decimalDigits: 2, symbolPosition: "suffix", name: "Slovak Koruna", withdrawn: "2009-01" },
+  EEK: { code: "EEK", symbol: "kr", decimalDigits: 2, symbolPosition: "suffix", name: "Estonian Kroon", withdrawn: "2011-01" },
+  LVL: { code: "LVL", symbol: "Ls", decimalDigits: 2, symbolPosition: "suffix", name: "Latvian Lats", withdrawn: "2014-01" },
+  LTL: { code: "LTL", symbol: "Lt", decimalDigits: 2, symbolPosition: "suffix", name: "Lithuanian Litas", withdrawn: "2015-01" },
+  TRL: { code: "TRL", symbol: "TL", decimalDigits: 0, symbolPosition: "suffix", name: "Turkish Lira (old)", withdrawn: "2005-12" },
+  ROL: { code: "ROL", symbol: "lei", decimalDigits: 2, symbolPosition: "suffix", name: "Romanian Leu (old)", withdrawn: "2005-06" },
+  ZMK: { code: "ZMK", symbol: "ZK", decimalDigits: 2, symbolPosition: "prefix", name: "Zambian Kwacha (old)", withdrawn: "2013-01" },
+  BYR: { code: "BYR", symbol: "Br", decimalDigits: 0, symbolPosition: "suffix", name: "Belarusian Ruble (old)", withdrawn: "2017-01" },
+  MRO: { code: "MRO", symbol: "UM", decimalDigits: 2, symbolPosition: "suffix", name: "Mauritanian Ouguiya (old)", withdrawn: "2017-12" },
+  STD: { code: "STD", symbol: "Db", decimalDigits: 2, symbolPosition: "suffix", name: "São Tomé Dobra (old)", withdrawn: "2017-12" },
+  VEF: { code: "VEF", symbol: "Bs.F", decimalDigits: 2, symbolPosition: "prefix", name: "Venezuelan Bolívar Fuerte", withdrawn: "2018-08" },
+  ANG: { code: "ANG", symbol: "NAƒ", decimalDigits: 2, symbolPosition: "prefix", name: "Netherlands Antillean Guilder", withdrawn: "2025-06" },
+};
+
+/**
+ * Redenominations and currency changeovers at their fixed rates
+ * Used by getCurrencyConfig's `at` and by convertLegacyAmount.
+ */
+export const currencySuccessions: CurrencySuccession[] = [
+  // Euro changeovers (official conversion rates)
+  { from: "ATS", to: "EUR", rate: "13.7603", effective: "2002-01-01" },
+  { from: "BEF", to: "EUR", rate: "40.3399", effective: "2002-01-01" },
+  { from: "DEM", to: "EUR", rate: "1.95583", effective: "2002-01-01" },
+  { from: "ESP", to: "EUR", rate: "166.386", effective: "2002-01-01" },
+  { from: "FIM", to: "EUR", rate: "5.94573", effective: "2002-01-01" },
+  { from: "FRF", to: "EUR", rate: "6.55957", effective: "2002-01-01" },
+  { from: "GRD", to: "EUR", rate: "340.750", effective: "2002-01-01" },
+  { from: "IEP", to: "EUR", rate: "0.787564", effective: "2002-01-01" },
+  { from: "ITL", to: "EUR", rate: "1936.27", effective: "2002-01-01" },
+  { from: "LUF", to: "EUR", rate: "40.3399", effective: "2002-01-01" },
+  { from: "NLG", to: "EUR", rate: "2.20371", effective: "2002-01-01" },
+  { from: "PTE", to: "EUR", rate: "200.482", effective: "2002-01-01" },
+  { from: "SIT", to: "EUR", rate: "239.640", effective: "2007-01-01" },
+  { from: "CYP", to: "EUR", rate: "0.585274", effective: "2008-01-01" },
+  { from: "MTL", to: "EUR", rate: "0.429300", effective: "2008-01-01" },
+  { from: "SKK", to: "EUR", rate: "30.1260", effective: "2009-01-01" },
+  { from: "EEK", to: "EUR", rate: "15.6466", effective: "2011-01-01" },
+  { from: "LVL", to: "EUR", rate: "0.702804", effective: "2014-01-01" },
+  { from: "LTL", to: "EUR", rate: "3.45280", effective: "2015-01-01" },
+  { from: "HRK", to: "EUR", rate: "7.53450", effective: "2023-01-01" },
+  { from: "BGN", to: "EUR", rate: "1.95583", effective: "2026-01-01" },
+  // Redenominations
+  { from: "TRL", to: "TRY", rate: "1000000", effective: "2005-01-01" },
+  { from: "ROL", to: "RON", rate: "10000", effective: "2005-07-01" },
+  { from: "ZMK", to: "ZMW", rate: "1000", effective: "2013-01-01" },
+  { from: "BYR", to: "BYN", rate: "10000", effective: "2016-07-01" },
+  { from: "MRO", to: "MRU", rate: "10", effective: "2018-01-01" },
+  { from: "STD", to: "STN", rate: "1000", effective: "2018-01-01" },
+  { from: "VEF", to: "VES", rate: "100000", effective: "2018-08-20" },
+  { from: "ANG", to: "XCG", rate: "1", effective: "2025-03-31" },
+];
+
+/**
+ * Successor of a retired currency, or undefined while it is current
+ *
+ * @example
+ * getCurrencySuccession("HRK")  // → { from: "HRK", to: "EUR", rate: "7.53450", effective: "2023-01-01" }
+ * getCurrencySuccession("EUR")  // → undefined
+ */
+export const getCurrencySuccession = (currencyCode: string): CurrencySuccession | undefined => {
+  const code = currencyCode.toUpperCase();
+  return currencySuccessions.find((succession) => succession.from === code);
+};
+
+/** Calendar day of a date as "YYYY-MM-DD" (local time for Date and timestamps) */
+const toIsoDate = (at: Date | number | string): string => {
+  if (typeof at === "string" && /^\d{4}-\d{2}-\d{2}/.test(at)) {
+    return at.slice(0, 10);
+  }
+
+  const date = at instanceof Date ? at : new Date(at);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date "${String(at)}"`);
+  }
+
+  const pad = (n: number) => (n < 10 ? "0" : "") + n;
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/** A currency's rules as they were on a day, from its `history` */
+const getInfoAt = (info: CurrencyInfo, day: string): CurrencyInfo => {
+  const period = info.history?.find((entry) => day < entry.until);
+  if (!period) return info;
+
+  return {
+    ...info,
+    decimalDigits: period.decimalDigits ?? info.decimalDigits,
+    roundingIncrement: period.roundingIncrement ?? info.roundingIncrement,
+    cashRoundingIncrement: period.cashRoundingIncrement ?? info.cashRoundingIncrement,
+  };
+};
+
+/**
+ * Currency text of a locale with the spacing next to it, as a prefix or
+ * suffix; undefined without Intl support for the currency
+ */
+const readCurrencyAffixes = (
+  locale: string,
+  code: string,
+  currencyDisplay: CurrencyDisplay
+): { prefix: string; suffix: string } | undefined => {
+  try {
+    const parts = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: code,
+      currencyDisplay,
+    }).formatToParts(5);
+    const currencyIndex = parts.findIndex((part) => part.type === "currency");
+    const integerIndex = parts.findIndex((part) => part.type === "integer");
+    if (currencyIndex === -1) return undefined;
+
+    const currency = parts[currencyIndex].value;
+    if (currencyIndex < integerIndex) {
+      const spacing = parts[currencyIndex + 1]?.type === "literal" ? parts[currencyIndex + 1].value : "";
+      return { prefix: currency + spacing, suffix: "" };
+    }
+    const spacing = parts[currencyIndex - 1]?.type === "literal" ? parts[currencyIndex - 1].value : "";
+    return { prefix: "", suffix: spacing + currency };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Prefix/suffix of a currency. Without `currencyDisplay` the database symbol
+ * is used as before; with it the affixes follow Intl for the locale.
+ */
+const getCurrencyAffixes = (
+  code: string,
+  info: CurrencyInfo | undefined,
+  locale?: string,
+  currencyDisplay?: CurrencyDisplay
+): { prefix: string; suffix: string } => {
+  const affixes = currencyDisplay && readCurrencyAffixes(locale || "en-US", code, currencyDisplay);
+  if (affixes) return affixes;
+
+  // No Intl: database symbol, or the code / English name when asked for
+  if (info && currencyDisplay === "name") {
+    return { prefix: "", suffix: " " + info.name };
+  }
+  if (info && currencyDisplay !== "code") {
+    return {
+      prefix: info.symbolPosition === "prefix" ? info.symbol : "",
+      suffix: info.symbolPosition === "suffix" ? " " + info.symbol : "",
+    };
+  }
+  return { prefix: code + " ", suffix: "" };
 };
 
 /**
  * Get format options from a currency code (ISO 4217)
  * Automatically configures decimal places, symbol, and position
+ * Pass `cash: true` to round to the currency's cash increment (payable amount)
+ * Pass `currencyDisplay` to show the locale's symbol, narrow symbol, code or name
  *
  * @example
  * getCurrencyConfig("JPY")  // → { prefix: "¥", decimalScale: 0, ... }
  * getCurrencyConfig("EUR")  // → { suffix: " €", decimalScale: 2, ... }
  * getCurrencyConfig("BHD")  // → { prefix: "BD", decimalScale: 3, ... }
+ * getCurrencyConfig("CHF", { cash: true })  // → { ..., roundingIncrement: 0.05 }
+ * getCurrencyConfig("USD", { currencyDisplay: "symbol", locale: "en-GB" })  // → { prefix: "US$", ... }
+ * getCurrencyConfig("USD", { currencyDisplay: "code" })  // → { prefix: "USD ", ... } (no-break space)
+ * getCurrencyConfig("USD", { currencyDisplay: "name" })  // → { suffix: " US dollars", ... }
+ * getCurrencyConfig("SEK", { cash: true, at: "2009-05-01" })  // → { ..., roundingIncrement: 0.5 }
+ * getCurrencyConfig("HRK", { at: "2022-12-31" })  // → { suffix: " kn", decimalScale: 2, ... }
+ * getCurrencyConfig("HRK", { at: "2023-01-01" })  // throws: HRK was replaced by EUR on 2023-01-01
+ * getCurrencyConfig("HRK")  // → { suffix: " kn", ... } (see currencyDatabase.HRK.withdrawn)
  */
 export const getCurrencyConfig = (
-  currencyCode: string,
-  options?: { locale?: string }
+  currencyCode: CurrencyCode | (string & Record<never, never>),
+  options?: {
+    locale?: string;
+    cash?: boolean;
+    currencyDisplay?: CurrencyDisplay;
+    /** Date of the amount; applies the rules of that day and rejects codes retired by then */
+    at?: Date | number | string;
+  }
 ): FormatCurrencyOptions => {
   const code = currencyCode.toUpperCase();
-  const info = currencyDatabase[code];
+  const currencyDisplay = options?.currencyDisplay;
+  let info: CurrencyInfo | undefined = currencyDatabase[code];
+
+  // Earlier rules apply as of `at` (default: today). Only an explicit `at`
+  // rejects a retired code; without it the last rules of the code are kept
+  const day = toIsoDate(options?.at ?? new Date());
+  const succession = getCurrencySuccession(code);
+
+  if (options?.at !== undefined && succession && day >= succession.effective) {
+    throw new Error(
+      `${code} was replaced by ${succession.to} on ${succession.effective}; convert the amount with convertLegacyAmount`
+    );
+  }
+  if (info) {
+    info = getInfoAt(info, day);
+  }
 
   if (info) {
+    const roundingIncrement =
+      (options?.cash && info.cashRoundingIncrement) || info.roundingIncrement;
+
     return {
-      prefix: info.symbolPosition === "prefix" ? info.symbol : "",
-      suffix: info.symbolPosition === "suffix" ? " " + info.symbol : "",
+      ...getCurrencyAffixes(code, info, options?.locale, currencyDisplay),
       decimalScale: info.decimalDigits,
       fixedDecimalScale: true,
       thousandSeparator: ",",
       decimalSeparator: ".",
+      ...(roundingIncrement ? { roundingIncrement } : {}),
     };
   }
 
   // Fallback: try Intl.NumberFormat for unknown currencies
   if (options?.locale) {
-    return detectLocaleFormat(options.locale, code);
+    const format = detectLocaleFormat(options.locale, code);
+    return currencyDisplay
+      ? { ...format, ...getCurrencyAffixes(code, info, options.locale, currencyDisplay) }
+      : format;
   }
 
   return {
-    prefix: code + " ",
+    ...getCurrencyAffixes(code, info, undefined, currencyDisplay),
     decimalScale: 2,
     fixedDecimalScale: true,
     thousandSeparator: ",",
@@ -217,15 +480,131 @@ const detectThousandSpacing = (locale: string): "2" | "2s" | "3" | "4" => {
 };
 
 /**
- * Get compact display labels for a locale using Intl
+ * Built-in compact scale systems
+ * - western: K (10³), M (10⁶), B (10⁹), T (10¹²)
+ * - indian: K (10³), L — lakh (10⁵), Cr — crore (10⁷)
+ * - eastAsian: 万 (10⁴), 亿 (10⁸), 万亿 (10¹²)
+ */
+export const compactScaleSystems: Record<"western" | "indian" | "eastAsian", CompactScale[]> = {
+  western: [
+    { exponent: 3, label: "K" },
+    { exponent: 6, label: "M" },
+    { exponent: 9, label: "B" },
+    { exponent: 12, label: "T" },
+  ],
+  indian: [
+    { exponent: 3, label: "K" },
+    { exponent: 5, label: "L" },
+    { exponent: 7, label: "Cr" },
+  ],
+  eastAsian: [
+    { exponent: 4, label: "万" },
+    { exponent: 8, label: "亿" },
+    { exponent: 12, label: "万亿" },
+  ],
+};
+
+/** Mantissas sampled to find each plural form of a long compact label */
+const PLURAL_SAMPLES = [1, 1.5, 2, 3, 5, 7];
+
+/**
+ * Read the compact scale table of a locale from Intl: 10^3 … 10^15 are
+ * formatted and each new label is recorded at the power of ten it starts
+ * at, so en-IN yields lakh (10⁵) / crore (10⁷) and zh-CN 万 (10⁴) / 亿 (10⁸)
+ */
+const detectCompactScales = (
+  locale: string,
+  compactDisplay: CompactDisplayStyle = "short"
+): CompactScale[] | undefined => {
+  const formatter = new Intl.NumberFormat(locale, {
+    notation: "compact",
+    compactDisplay,
+  });
+  const pluralRules =
+    compactDisplay === "long" && Intl.PluralRules
+      ? new Intl.PluralRules(locale)
+      : undefined;
+  const scales: CompactScale[] = [];
+
+  // Label (with the literal spacing around it, " Mio.") and integer digits
+  const readCompact = (num: number): { label: string; digits: string } | undefined => {
+    const parts = formatter.formatToParts(num);
+    const compactIndex = parts.findIndex((p) => p.type === "compact");
+    if (compactIndex === -1) return undefined;
+
+    let start = compactIndex;
+    while (start > 0 && parts[start - 1].type === "literal") start--;
+    return {
+      label: parts
+        .slice(start, compactIndex + 1)
+        .map((p) => p.value)
+        .join(""),
+      digits: parts
+        .filter((p) => p.type === "integer")
+        .map((p) => p.value)
+        .join(""),
+    };
+  };
+
+  for (let exponent = 3; exponent <= 15; exponent++) {
+    const compact = readCompact(Math.pow(10, exponent));
+    if (!compact) continue;
+
+    const scaleExponent = exponent - (compact.digits.length - 1);
+    if (scales.some((scale) => scale.exponent === scaleExponent)) continue;
+
+    const scale: CompactScale = { exponent: scaleExponent, label: compact.label };
+
+    // Long labels inflect: "1 Million" / "3,4 Millionen"
+    if (pluralRules) {
+      const plurals: Partial<Record<Intl.LDMLPluralRule, string>> = {};
+      PLURAL_SAMPLES.forEach((mantissa) => {
+        const sample = readCompact(mantissa * Math.pow(10, scaleExponent));
+        const category = pluralRules.select(mantissa);
+        if (sample && !plurals[category]) plurals[category] = sample.label;
+      });
+      scale.plurals = plurals;
+      scale.label = plurals.other || scale.label;
+    }
+
+    scales.push(scale);
+  }
+
+  return scales.length > 0 ? scales : undefined;
+};
+
+/**
+ * Compact labels of a locale from Intl.NumberFormat
+ * Pass "long" for spelled-out, pluralised labels ("1.2 million", "3,4 Millionen")
+ *
+ * @example
+ * getCompactLabels("en-US")          // → { thousand: "K", million: "M", ... }
+ * getCompactLabels("de-DE", "long")  // → { million: " Millionen", scales: [..., { exponent: 6, label: " Millionen", plurals: { one: " Million", other: " Millionen" } }] }
  */
 export const getCompactLabels = (
-  locale?: string
+  locale?: string,
+  compactDisplay: CompactDisplayStyle = "short"
 ): CompactDisplayOptions => {
   const resolvedLocale = locale ||
     (typeof navigator !== "undefined" ? navigator.language : "en-US");
 
   try {
+    const scales = detectCompactScales(resolvedLocale, compactDisplay);
+
+    if (compactDisplay === "long") {
+      const labelAt = (exponent: number): string | undefined =>
+        scales?.find((scale) => scale.exponent === exponent)?.label;
+
+      return {
+        thousand: labelAt(3) || " thousand",
+        million: labelAt(6) || " million",
+        billion: labelAt(9) || " billion",
+        trillion: labelAt(12) || " trillion",
+        scales,
+        locale: resolvedLocale,
+      };
+    }
+
     const formatCompactNumber = (num: number): string => {
       const formatter = new Intl.NumberFormat(resolvedLocale, {
         notation: "compact",
@@ -241,14 +620,23 @@ export const getCompactLabels = (
       million: formatCompactNumber(1000000).replace(/[\d.,\s]/g, "") || "M",
       billion: formatCompactNumber(1000000000).replace(/[\d.,\s]/g, "") || "B",
       trillion: formatCompactNumber(1000000000000).replace(/[\d.,\s]/g, "") || "T",
+      scales,
+      locale: resolvedLocale,
     };
   } catch {
-    return {
-      thousand: "K",
-      million: "M",
-      billion: "B",
-      trillion: "T",
-    };
+    return compactDisplay === "long"
+      ? {
+          thousand: " thousand",
+          million: " million",
+          billion: " billion",
+          trillion: " trillion",
+        }
+      : {
+          thousand: "K",
+          million: "M",
+          billion: "B",
+          trillion: "T",
+        };
   }
 };
 
@@ -351,6 +739,11 @@ export const localePresets: Record<string, LocaleConfig> = {
       million: "百万",
       billion: "十億",
       trillion: "兆",
+      scales: [
+        { exponent: 4, label: "万" },
+        { exponent: 8, label: "億" },
+        { exponent: 12, label: "兆" },
+      ],
     },
   },
   "en-IN": {
@@ -363,9 +756,10 @@ export const localePresets: Record<string, LocaleConfig> = {
     thousandSpacing: "2s",
     compactDisplay: {
       thousand: "K",
-      million: "L", // Lakh
-      billion: "Cr", // Crore
+      million: "M",
+      billion: "B",
       trillion: "T",
+      scales: compactScaleSystems.indian, // K, L (lakh), Cr (crore)
     },
   },
   "fr-FR": {
@@ -393,9 +787,10 @@ export const localePresets: Record<string, LocaleConfig> = {
     thousandSpacing: "3",
     compactDisplay: {
       thousand: "千",
-      million: "万",
-      billion: "亿",
+      million: "百万",
+      billion: "十亿",
       trillion: "万亿",
+      scales: compactScaleSystems.eastAsian, // 万, 亿, 万亿
     },
   },
   "ko-KR": {
@@ -412,6 +807,12 @@ export const localePresets: Record<string, LocaleConfig> = {
       million: "백만",
       billion: "십억",
       trillion: "조",
+      scales: [
+        { exponent: 3, label: "천" },
+        { exponent: 4, label: "만" },
+        { exponent: 8, label: "억" },
+        { exponent: 12, label: "조" },
+      ],
     },
   },
   "pt-BR": {
@@ -493,6 +894,11 @@ export const getFormatOptionsFromLocale = (
     suffix,
     fixedDecimalScale,
     allowNegative,
+    negativeStyle,
+    signDisplay,
+    signPosition,
+    roundingMode,
+    roundingIncrement,
   } = config;
 
   return {
@@ -504,6 +910,11 @@ export const getFormatOptionsFromLocale = (
     suffix,
     fixedDecimalScale,
     allowNegative,
+    negativeStyle,
+    signDisplay,
+    signPosition,
+    roundingMode,
+    roundingIncrement,
   };
 };
 
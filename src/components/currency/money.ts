@@ -0,0 +1,352 @@
+import {
+  DecimalInput,
+  RoundingMode,
+  compareDecimal,
+  decimalToNumber,
+  multiplyDecimal,
+  normalizeDecimal,
+  roundDecimal,
+  shiftDecimal,
+  toDecimalString,
+} from "./decimal";
+import {
+  FormatCurrencyOptions,
+  ValueObject,
+  formatCurrency,
+  fromValueUnit,
+  toValueUnit,
+} from "./utils";
+import { currencyDatabase, getCurrencyConfig } from "./locales";
+import { findIso4217Currency } from "./iso4217";
+
+// Types
+export interface MoneyFormatOptions extends FormatCurrencyOptions {
+  /** Locale used for currencies missing from currencyDatabase */
+  locale?: string;
+  /** Round to the currency's cash increment (see getCurrencyConfig) */
+  cash?: boolean;
+}
+
+export interface AllocateOptions extends MoneyFormatOptions {
+  /** ISO 4217 code; sets the minor unit and rounding increment */
+  currency: string;
+}
+
+/**
+ * An immutable amount tied to a currency, stored in minor units
+ * (cents, øre, fils) so arithmetic never drifts
+ */
+export interface Money {
+  /** Amount in minor units: 1234n for USD 12.34 */
+  readonly minorUnits: bigint;
+  /** ISO 4217 currency code */
+  readonly currency: string;
+  /** Number of minor-unit digits for the currency */
+  readonly decimalDigits: number;
+  /** Major-unit decimal string: "12.34" */
+  toDecimalString(): string;
+  /** Major-unit JS number (may lose precision beyond 15 digits) */
+  toNumber(): number;
+  add(other: Money): Money;
+  subtract(other: Money): Money;
+  /** Multiply by a ratio, rounding the result to whole minor units */
+  multiply(ratio: DecimalInput, roundingMode: RoundingMode): Money;
+  /** -1, 0 or 1 */
+  compare(other: Money): number;
+  equals(other: Money): boolean;
+  isZero(): boolean;
+  isNegative(): boolean;
+  /** Format with the currency's config; options override it */
+  format(options?: MoneyFormatOptions): string;
+}
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+/**
+ * Minor-unit digits of a currency from currencyDatabase, then ISO 4217;
+ * undefined for unknown codes and codes without minor units (XAU, XDR)
+ *
+ * @example
+ * getMinorUnitDigits("USD")  // → 2
+ * getMinorUnitDigits("IQD")  // → 3 (ISO 4217)
+ * getMinorUnitDigits("XAU")  // → undefined
+ */
+export const getMinorUnitDigits = (currencyCode: string): number | undefined => {
+  const currency = currencyCode.toUpperCase();
+  const info = currencyDatabase[currency];
+  if (info) return info.decimalDigits;
+
+  const iso = /^[A-Z]{3}$/.test(currency) ? findIso4217Currency(currency) : undefined;
+  return iso && iso.minorUnits !== null ? iso.minorUnits : undefined;
+};
+
+/** Like getMinorUnitDigits, but throws rather than assume 2 */
+const getDecimalDigits = (currency: string): number => {
+  const digits = getMinorUnitDigits(currency);
+  if (digits === undefined) {
+    throw new Error(
+      findIso4217Currency(currency)
+        ? `${currency} has no minor units`
+        : `Unknown currency "${currency}"`
+    );
+  }
+  return digits;
+};
+
+const MAX_SAFE_MINOR = BigInt(Number.MAX_SAFE_INTEGER);
+
+/** Throw when a count of minor units cannot be held exactly by a number */
+const assertSafeMinorUnits = (minorStr: string, hint: string): void => {
+  const integer = minorStr.replace(/^-/, "").split(".")[0] || "0";
+  if (BigInt(integer) > MAX_SAFE_MINOR) {
+    throw new Error(`${minorStr} minor units exceed Number.MAX_SAFE_INTEGER; use ${hint}`);
+  }
+};
+
+/**
+ * Convert a major-unit amount to integer minor units of the currency
+ * (cents, øre, fils), rounding extra decimals. Throws past
+ * Number.MAX_SAFE_INTEGER; Money keeps larger amounts as bigint.
+ *
+ * @example
+ * toMinorUnits(12.34, "USD")   // → 1234
+ * toMinorUnits(1500, "JPY")    // → 1500
+ * toMinorUnits("1.2345", "KWD") // → 1235 (3 digits, halfUp)
+ */
+export const toMinorUnits = (
+  amount: DecimalInput,
+  currencyCode: string,
+  roundingMode: RoundingMode = "halfUp"
+): number => {
+  const digits = getDecimalDigits(currencyCode.toUpperCase());
+  const minorStr = toValueUnit(toDecimalString(amount), "minor", digits, roundingMode);
+  if (/\d/.test(minorStr)) {
+    assertSafeMinorUnits(minorStr, "createMoney(amount, currency).minorUnits");
+  }
+  return decimalToNumber(minorStr);
+};
+
+/**
+ * Convert integer minor units of the currency to a major-unit amount.
+ * Throws past Number.MAX_SAFE_INTEGER minor units.
+ *
+ * @example
+ * fromMinorUnits(1234, "USD")  // → 12.34
+ * fromMinorUnits(1234, "BHD")  // → 1.234
+ */
+export const fromMinorUnits = (
+  minorUnits: DecimalInput,
+  currencyCode: string
+): number => {
+  const digits = getDecimalDigits(currencyCode.toUpperCase());
+  const minorStr = toDecimalString(minorUnits);
+  if (/\d/.test(minorStr)) {
+    assertSafeMinorUnits(minorStr, "createMoneyFromMinor(minorUnits, currency).toDecimalString()");
+  }
+  return decimalToNumber(fromValueUnit(minorStr, "minor", digits));
+};
+
+const assertSameCurrency = (a: Money, b: Money): void => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot mix currencies: ${a.currency} and ${b.currency}`);
+  }
+};
+
+/**
+ * Create a Money value from an amount in minor units
+ *
+ * @example
+ * createMoneyFromMinor(1234, "USD").toDecimalString(); // → "12.34"
+ * createMoneyFromMinor(1234, "JPY").toDecimalString(); // → "1234"
+ */
+export const createMoneyFromMinor = (
+  minorUnits: bigint | number | string,
+  currencyCode: string
+): Money => {
+  const currency = currencyCode.toUpperCase();
+  const decimalDigits = getDecimalDigits(currency);
+  const minorStr = toDecimalString(minorUnits);
+
+  if (!/^-?\d+$/.test(minorStr)) {
+    throw new Error(`Minor units must be an integer, got "${String(minorUnits)}"`);
+  }
+
+  const minor = BigInt(minorStr);
+  const toMajor = (): string => shiftDecimal(minor.toString(), -decimalDigits);
+
+  const money: Money = {
+    minorUnits: minor,
+    currency,
+    decimalDigits,
+    toDecimalString: () => roundDecimal(toMajor(), decimalDigits),
+    toNumber: () => parseFloat(toMajor()),
+    add: (other) => {
+      assertSameCurrency(money, other);
+      return createMoneyFromMinor(minor + other.minorUnits, currency);
+    },
+    subtract: (other) => {
+      assertSameCurrency(money, other);
+      return createMoneyFromMinor(minor - other.minorUnits, currency);
+    },
+    multiply: (ratio, roundingMode) => {
+      const ratioStr = toDecimalString(ratio);
+      if (ratioStr === "") {
+        throw new Error(`Invalid ratio "${String(ratio)}"`);
+      }
+      const product = multiplyDecimal(minor.toString(), ratioStr);
+      return createMoneyFromMinor(roundDecimal(product, 0, roundingMode), currency);
+    },
+    compare: (other) => {
+      assertSameCurrency(money, other);
+      return minor === other.minorUnits ? 0 : minor < other.minorUnits ? -1 : 1;
+    },
+    equals: (other) =>
+      other.currency === currency && other.minorUnits === minor,
+    isZero: () => minor === ZERO,
+    isNegative: () => minor < ZERO,
+    format: (options = {}) => {
+      const { locale, cash, ...formatOptions } = options;
+      return formatCurrency(money.toDecimalString(), {
+        ...getCurrencyConfig(currency, { locale, cash }),
+        decimalScale: decimalDigits,
+        ...formatOptions,
+      });
+    },
+  };
+
+  return Object.freeze(money);
+};
+
+/**
+ * Create a Money value from a major-unit amount ("12.34", 12.34, Decimal)
+ * Amounts with more decimals than the currency allows throw unless a
+ * rounding mode is given.
+ *
+ * @example
+ * createMoney("12.34", "USD").minorUnits;       // → 1234n
+ * createMoney("12.345", "USD");                 // throws
+ * createMoney("12.345", "USD", "halfEven").format(); // → "$12.34"
+ *
+ * const total = createMoney(10, "EUR").add(createMoney("2.50", "EUR"));
+ * total.format(); // → "12.50 €"
+ */
+export const createMoney = (
+  amount: DecimalInput,
+  currencyCode: string,
+  roundingMode?: RoundingMode
+): Money => {
+  const currency = currencyCode.toUpperCase();
+  const decimalDigits = getDecimalDigits(currency);
+  const amountStr = toDecimalString(amount);
+
+  if (amountStr === "") {
+    throw new Error(`Invalid amount "${String(amount)}"`);
+  }
+
+  const rounded = roundDecimal(amountStr, decimalDigits, roundingMode);
+  if (!roundingMode && compareDecimal(rounded, amountStr) !== 0) {
+    throw new Error(
+      `${normalizeDecimal(amountStr)} has more than ${decimalDigits} decimal(s) for ${currency}; pass a rounding mode`
+    );
+  }
+
+  return createMoneyFromMinor(shiftDecimal(rounded, decimalDigits), currency);
+};
+
+/**
+ * Split an amount by ratios with the largest-remainder method, so the
+ * parts always add up to the total. Each part is a whole number of the
+ * currency's minor unit, or of its rounding increment (cash increment
+ * with `cash: true`).
+ *
+ * @example
+ * allocate(100, [1, 1, 1], { currency: "USD" }).map((part) => part.formattedValue);
+ * // Output: ["$33.34", "$33.33", "$33.33"]
+ *
+ * allocate("0.05", [70, 20, 10], { currency: "EUR" }).map((part) => part.value);
+ * // Output: ["0.04", "0.01", "0.00"]
+ */
+export const allocate = (
+  amount: DecimalInput | Money,
+  ratios: DecimalInput[],
+  options: AllocateOptions
+): ValueObject[] => {
+  const { currency: currencyCode, locale, cash, ...formatOptions } = options;
+  const currency = currencyCode.toUpperCase();
+  const decimalDigits = getDecimalDigits(currency);
+  const info = currencyDatabase[currency];
+  const increment = (cash && info?.cashRoundingIncrement) || info?.roundingIncrement;
+
+  let amountStr: string;
+  if (typeof amount === "object" && "minorUnits" in amount) {
+    if (amount.currency !== currency) {
+      throw new Error(`Cannot mix currencies: ${amount.currency} and ${currency}`);
+    }
+    amountStr = amount.toDecimalString();
+  } else {
+    amountStr = toDecimalString(amount);
+  }
+
+  if (amountStr === "") {
+    throw new Error(`Invalid amount "${String(amount)}"`);
+  }
+
+  // Work in whole steps: minor units, or increments of the rounding step
+  const step = increment
+    ? shiftDecimal(toDecimalString(increment), decimalDigits)
+    : "1";
+  const stepMinor = BigInt(roundDecimal(step, 0));
+  const minor = shiftDecimal(amountStr, decimalDigits);
+  const units = BigInt(roundDecimal(minor, 0)) / stepMinor;
+
+  if (compareDecimal(multiplyDecimal(units.toString(), step), minor) !== 0) {
+    throw new Error(`${amountStr} is not a whole number of ${currency} ${increment ? increment : "minor units"}`);
+  }
+
+  // Scale ratios to integers
+  const ratioStrs = ratios.map((ratio) => toDecimalString(ratio));
+  if (ratioStrs.length === 0 || ratioStrs.some((ratio) => ratio === "" || ratio[0] === "-")) {
+    throw new Error("Ratios must be a non-empty list of non-negative numbers");
+  }
+  const ratioScale = Math.max(...ratioStrs.map((ratio) => (ratio.split(".")[1] || "").length));
+  const weights = ratioStrs.map((ratio) => BigInt(shiftDecimal(ratio, ratioScale)));
+  const total = weights.reduce((sum, weight) => sum + weight, ZERO);
+
+  if (total === ZERO) {
+    throw new Error("Ratios must not all be zero");
+  }
+
+  // Floor each share, then hand the leftover steps to the largest remainders
+  const negative = units < ZERO;
+  const absUnits = negative ? -units : units;
+  const shares = weights.map((weight) => (absUnits * weight) / total);
+  const remainders = weights.map((weight) => (absUnits * weight) % total);
+  let leftover = absUnits - shares.reduce((sum, share) => sum + share, ZERO);
+
+  const order = weights
+    .map((_, index) => index)
+    .sort((a, b) =>
+      remainders[a] === remainders[b] ? a - b : remainders[a] > remainders[b] ? -1 : 1
+    );
+  for (let i = 0; leftover > ZERO; i = (i + 1) % order.length) {
+    shares[order[i]] += ONE;
+    leftover -= ONE;
+  }
+
+  const formatConfig = {
+    ...getCurrencyConfig(currency, { locale, cash }),
+    decimalScale: decimalDigits,
+    ...formatOptions,
+  };
+
+  return shares.map((share) => {
+    const shareMinor = (negative ? -share : share) * stepMinor;
+    const value = roundDecimal(shiftDecimal(shareMinor.toString(), -decimalDigits), decimalDigits);
+    return {
+      value,
+      floatValue: parseFloat(value),
+      formattedValue: formatCurrency(value, formatConfig),
+    };
+  });
+};
@@ -0,0 +1,154 @@
+import { DecimalInput, decimalToNumber, shiftDecimal, toDecimalString } from "./decimal";
+import {
+  FormatCurrencyOptions,
+  ParseCurrencyOptions,
+  ParseCurrencyResult,
+  formatCurrency,
+  parseCurrency,
+} from "./utils";
+import { detectLocaleFormat } from "./locales";
+
+// Types
+/**
+ * What a rate is shown in
+ * - percent: 0.125 → 12.5%
+ * - permille: 0.0125 → 12.5‰
+ * - basisPoint: 0.00125 → 12.5 bp
+ */
+export type PercentUnit = "percent" | "permille" | "basisPoint";
+
+export interface FormatPercentOptions extends FormatCurrencyOptions {
+  /** Unit to show the fraction in (default: "percent") */
+  unit?: PercentUnit;
+  /** Locale for separators and the placement/spacing of the sign */
+  locale?: string;
+}
+
+export interface ParsePercentOptions
+  extends Pick<ParseCurrencyOptions, "decimalSeparator" | "thousandSeparator" | "prefix" | "suffix"> {
+  /** Unit the text is written in (default: "percent") */
+  unit?: PercentUnit;
+  /** Locale for separators and the placement/spacing of the sign */
+  locale?: string;
+}
+
+/**
+ * Powers of ten between a stored fraction and each unit; use as the
+ * `valueScale` of CurrencyFormat and the hooks
+ */
+export const percentUnitScale: Record<PercentUnit, number> = {
+  percent: 2,
+  permille: 3,
+  basisPoint: 4,
+};
+
+const UNIT_SIGNS: Record<PercentUnit, string> = {
+  percent: "%",
+  permille: "‰",
+  basisPoint: "bp",
+};
+
+/**
+ * Separators and sign affixes of a locale, read from Intl's percent style
+ * ("12,5 %" in fr-FR with a narrow no-break space, "%12,5" in tr-TR)
+ */
+const getPercentConfig = (
+  unit: PercentUnit,
+  locale?: string
+): FormatCurrencyOptions => {
+  const sign = UNIT_SIGNS[unit];
+
+  if (!locale) {
+    return { prefix: "", suffix: unit === "basisPoint" ? " " + sign : sign };
+  }
+
+  const { decimalSeparator, thousandSeparator, thousandSpacing } = detectLocaleFormat(locale);
+  let prefix = "";
+  let suffix = sign;
+
+  try {
+    const parts = new Intl.NumberFormat(locale, { style: "percent" }).formatToParts(0.5);
+    const signIndex = parts.findIndex((part) => part.type === "percentSign");
+    const integerIndex = parts.findIndex((part) => part.type === "integer");
+
+    if (signIndex !== -1) {
+      // Keep the locale's own percent sign ("٪") for percent
+      const localeSign = unit === "percent" ? parts[signIndex].value : sign;
+
+      if (signIndex < integerIndex) {
+        const spacing = parts[signIndex + 1]?.type === "literal" ? parts[signIndex + 1].value : "";
+        prefix = localeSign + spacing;
+        suffix = "";
+      } else {
+        const spacing = parts[signIndex - 1]?.type === "literal" ? parts[signIndex - 1].value : "";
+        suffix = (spacing || (unit === "basisPoint" ? " " : "")) + localeSign;
+      }
+    }
+  } catch {
+    // Intl without percent support: plain suffix
+  }
+
+  return { decimalSeparator, thousandSeparator, thousandSpacing, prefix, suffix };
+};
+
+/**
+ * Format a stored fraction as percent, permille or basis points
+ * The value is the fraction itself (0.125), so nothing is ever stored as 12.5.
+ *
+ * @example
+ * formatPercent(0.125);                                      // → "12.5%"
+ * formatPercent(0.125, { locale: "fr-FR" });                 // → "12,5 %" (narrow no-break space)
+ * formatPercent(0.0125, { unit: "permille" });               // → "12.5‰"
+ * formatPercent(0.00125, { unit: "basisPoint" });            // → "12.5 bp"
+ * formatPercent(0.5, { decimalScale: 1, fixedDecimalScale: true }); // → "50.0%"
+ */
+export const formatPercent = (
+  value: DecimalInput | null | undefined,
+  options: FormatPercentOptions = {}
+): string => {
+  const { unit = "percent", locale, ...formatOptions } = options;
+
+  if (value === null || value === undefined || value === "") {
+    return "";
+  }
+
+  const numStr = toDecimalString(value);
+  if (numStr === "") {
+    return "";
+  }
+
+  return formatCurrency(shiftDecimal(numStr, percentUnitScale[unit]), {
+    ...getPercentConfig(unit, locale),
+    ...formatOptions,
+  });
+};
+
+/**
+ * Parse percent, permille or basis-point text back to the stored fraction
+ *
+ * @example
+ * parsePercent("12.5%");                         // → { value: "0.125", floatValue: 0.125, ... }
+ * parsePercent("12,5 %", { locale: "fr-FR" });   // → { value: "0.125", ... }
+ * parsePercent("25 bp", { unit: "basisPoint" }); // → { value: "0.0025", ... }
+ */
+export const parsePercent = (
+  formattedValue: string | null | undefined,
+  options: ParsePercentOptions = {}
+): ParseCurrencyResult => {
+  const { unit = "percent", locale, ...parseOptions } = options;
+  const parsed = parseCurrency(formattedValue, {
+    ...getPercentConfig(unit, locale),
+    ...parseOptions,
+  });
+
+  if (parsed.value === "" || !/\d/.test(parsed.value)) {
+    return parsed;
+  }
+
+  const value = shiftDecimal(parsed.value, -percentUnitScale[unit]);
+  return {
+    value,
+    floatValue: decimalToNumber(value),
+    formattedValue: parsed.formattedValue,
+  };
+};
@@ -1,8 +1,8 @@
 import { useCallback } from "react";
-import { charIsNumber, setCaretPosition, splitString } from "./utils";
+import { charIsNumber, normalizeDigits, setCaretPosition, splitString } from "./utils";
 import type { FormatFunction } from "./index";
 import type { Separators } from "./useFormatting";
-import type { SplitDecimalResult } from "./utils";
+import type { SplitDecimalResult, NegativeStyle } from "./utils";
 
 interface UseCaretManagementProps {
   format?: string | FormatFunction;
@@ -10,8 +10,10 @@ interface UseCaretManagementProps {
   suffix: string;
   decimalScale?: number;
   fixedDecimalScale: boolean;
+  negativeStyle: NegativeStyle;
   // Formatting helpers from useFormatting
   getSeparators: () => Separators;
+  getNegationBounds: (val: string) => [number, number];
   getNumberRegex: (g: boolean, ignoreDecimalSeparator?: boolean) => RegExp;
   removeFormatting: (val: string) => string;
   splitDecimal: (numStr: string) => SplitDecimalResult;
@@ -26,7 +28,9 @@ export function useCaretManagement({
   suffix,
   decimalScale,
   fixedDecimalScale,
+  negativeStyle,
   getSeparators,
+  getNegationBounds,
   getNumberRegex,
   removeFormatting,
   splitDecimal,
@@ -46,10 +50,10 @@ export function useCaretManagement({
   const correctCaretPosition = useCallback(
     (value: string, caretPos: number, direction?: string): number => {
       if (!format) {
-        const hasNegation = value[0] === "-";
+        const [negBefore, negAfter] = getNegationBounds(value);
         return Math.min(
-          Math.max(caretPos, prefix.length + (hasNegation ? 1 : 0)),
-          value.length - suffix.length
+          Math.max(caretPos, prefix.length + negBefore),
+          value.length - suffix.length - negAfter
         );
       }
 
@@ -94,11 +98,14 @@ export function useCaretManagement({
 
       return caretPos;
     },
-    [format, prefix, suffix]
+    [format, prefix, suffix, getNegationBounds]
   );
 
   const getCaretPosition = useCallback(
     (inputValue: string, formattedValue: string, caretPos: number): number => {
+      // Typed ASCII digits match their native counterparts one to one
+      inputValue = normalizeDigits(inputValue);
+      formattedValue = normalizeDigits(formattedValue);
       const numRegex = getNumberRegex(true);
       const inputNumber = (inputValue.match(numRegex) || []).join("");
       const formattedNumber = (formattedValue.match(numRegex) || []).join("");
@@ -150,10 +157,15 @@ export function useCaretManagement({
 
       if (typeof format === "string" && format[caretPos] !== "#") return true;
 
+      // Styled negation markers ("(", ")", " CR") are protected like the prefix/suffix;
+      // a plain leading "-" stays deletable
+      const [negBefore, negAfter] =
+        negativeStyle === "minus" ? [0, 0] : getNegationBounds(value);
+
       if (
         !format &&
-        (caretPos < prefix.length ||
-          caretPos >= value.length - suffix.length ||
+        (caretPos < prefix.length + negBefore ||
+          caretPos >= value.length - suffix.length - negAfter ||
           (decimalScale && fixedDecimalScale && value[caretPos] === decSep))
       ) {
         return true;
@@ -161,7 +173,16 @@ export function useCaretManagement({
 
       return false;
     },
-    [format, prefix, suffix, decimalScale, fixedDecimalScale, getSeparators]
+    [
+      format,
+      prefix,
+      suffix,
+      decimalScale,
+      fixedDecimalScale,
+      negativeStyle,
+      getSeparators,
+      getNegationBounds,
+    ]
   );
 
   const checkIfFormatGotDeleted = useCallback(
@@ -1,13 +1,38 @@
 import { useCallback } from "react";
 import {
+  applyRoundingIncrement,
+  applyValueScale,
+  applySignToParts,
+  CurrencyPart,
+  DIGIT_PATTERN,
   escapeRegExp,
   fixLeadingZero,
+  fromValueUnit,
+  GROUP_MARK,
+  joinParts,
   limitToScale,
+  normalizeDigits,
+  NumberingSystem,
+  stripBidiMarks,
+  removeAffixesAndSign,
+  resolveFractionDigits,
   roundToPrecision,
+  stripZeroFraction,
   thousandGroupSpacing,
   ThousandSpacing,
   SplitDecimalResult,
+  RoundingMode,
+  NegativeStyle,
+  SignDisplay,
+  SignPosition,
+  TrailingZeroDisplay,
+  ValueUnit,
+  splitNegation,
+  toNativeDigits,
+  toNativeDigitParts,
+  toNumberParts,
 } from "./utils";
+import { toDecimalString } from "./decimal";
 import type { FormatFunction, RemoveFormattingFunction } from "./index";
 
 export interface Separators {
@@ -22,16 +47,29 @@ interface UseFormattingProps {
   thousandSpacing: ThousandSpacing;
   decimalScale?: number;
   fixedDecimalScale: boolean;
+  minimumFractionDigits?: number;
+  maximumFractionDigits?: number;
+  trailingZeroDisplay: TrailingZeroDisplay;
+  roundingMode: RoundingMode;
+  roundingIncrement?: number;
   format?: string | FormatFunction;
   mask: string | string[];
   prefix: string;
   suffix: string;
   allowNegative: boolean;
+  negativeStyle: NegativeStyle;
+  signDisplay: SignDisplay;
+  signPosition: SignPosition;
   allowEmptyFormatting: boolean;
   removeFormattingProp?: RemoveFormattingFunction;
   isNumericStringProp: boolean;
-  valueProp?: string | number;
-  defaultValueProp?: string | number;
+  valueUnit: ValueUnit;
+  /** Digits of one major unit in minor units ("minor" valueUnit) */
+  minorUnitDigits: number;
+  valueScale: number;
+  numberingSystem?: NumberingSystem;
+  valueProp?: string | number | bigint;
+  defaultValueProp?: string | number | bigint;
 }
 
 export function useFormatting({
@@ -40,17 +78,37 @@ export function useFormatting({
   thousandSpacing,
   decimalScale,
   fixedDecimalScale,
+  minimumFractionDigits: minimumFractionDigitsProp,
+  maximumFractionDigits: maximumFractionDigitsProp,
+  trailingZeroDisplay,
+  roundingMode,
+  roundingIncrement,
   format,
   mask,
   prefix,
   suffix,
   allowNegative,
+  negativeStyle,
+  signDisplay,
+  signPosition,
   allowEmptyFormatting,
   removeFormattingProp,
   isNumericStringProp,
+  valueUnit,
+  minorUnitDigits,
+  valueScale,
+  numberingSystem,
   valueProp,
   defaultValueProp,
 }: UseFormattingProps) {
+  const { minimum: minimumFractionDigits, maximum: maximumFractionDigits } =
+    resolveFractionDigits({
+      decimalScale,
+      fixedDecimalScale,
+      minimumFractionDigits: minimumFractionDigitsProp,
+      maximumFractionDigits: maximumFractionDigitsProp,
+    });
+
   const getSeparators = useCallback((): Separators => {
     let separator = thousandSeparator;
     if (separator === true) {
@@ -77,14 +135,14 @@ export function useFormatting({
     (g: boolean, ignoreDecimalSeparator?: boolean): RegExp => {
       const { decimalSeparator: decSep } = getSeparators();
       return new RegExp(
-        "\\d" +
-          (decSep && decimalScale !== 0 && !ignoreDecimalSeparator && !format
+        DIGIT_PATTERN +
+          (decSep && maximumFractionDigits !== 0 && !ignoreDecimalSeparator && !format
             ? "|" + escapeRegExp(decSep)
             : ""),
         g ? "g" : undefined
       );
     },
-    [getSeparators, decimalScale, format]
+    [getSeparators, maximumFractionDigits, format]
   );
 
   const splitDecimal = useCallback(
@@ -162,6 +220,7 @@ export function useFormatting({
 
       let hashCount = 0;
       const formattedNumberAry = format.split("");
+      numStr = toNativeDigits(numStr, numberingSystem);
       for (let i = 0, ln = format.length; i < ln; i++) {
         if (format[i] === "#") {
           formattedNumberAry[i] =
@@ -171,19 +230,21 @@ export function useFormatting({
       }
       return formattedNumberAry.join("");
     },
-    [format, getMaskAtIndex]
+    [format, getMaskAtIndex, numberingSystem]
   );
 
-  const formatAsNumber = useCallback(
-    (numStr: string): string => {
+  const formatAsNumberToParts = useCallback(
+    (numStr: string): CurrencyPart[] => {
       const {
         thousandSeparator: tSep,
         decimalSeparator: decSep,
         thousandSpacing: tSpacing,
       } = getSeparators();
 
-      const hasDecimalSeparator =
-        numStr.indexOf(".") !== -1 || (decimalScale && fixedDecimalScale);
+      // Whole amounts are not padded with stripIfInteger; typed decimals stay until blur
+      const padsFraction =
+        minimumFractionDigits > 0 && trailingZeroDisplay !== "stripIfInteger";
+      const hasDecimalSeparator = numStr.indexOf(".") !== -1 || padsFraction;
       let { beforeDecimal, afterDecimal } = splitDecimal(numStr);
       const { addNegation } = splitDecimal(numStr);
 
@@ -191,63 +252,107 @@ export function useFormatting({
         beforeDecimal = "0";
       }
 
-      if (decimalScale !== undefined) {
+      if (maximumFractionDigits !== undefined || minimumFractionDigits > 0) {
         afterDecimal = limitToScale(
           afterDecimal,
-          decimalScale,
-          fixedDecimalScale
+          maximumFractionDigits ?? Math.max(afterDecimal.length, minimumFractionDigits),
+          false,
+          minimumFractionDigits
         );
       }
 
       if (tSep) {
-        beforeDecimal = formatThousand(beforeDecimal, tSep, tSpacing);
+        beforeDecimal = formatThousand(beforeDecimal, GROUP_MARK, tSpacing);
       }
 
-      if (prefix) beforeDecimal = prefix + beforeDecimal;
-      if (suffix) afterDecimal = afterDecimal + suffix;
-
-      if (addNegation) beforeDecimal = "-" + beforeDecimal;
-
-      return (
-        beforeDecimal + ((hasDecimalSeparator && decSep) || "") + afterDecimal
+      // Negative zero keeps its sign while typing ("-0.05" passes through "-0")
+      const isZero = !/[1-9]/.test(numStr);
+
+      return applySignToParts(
+        toNativeDigitParts(
+          toNumberParts(
+            beforeDecimal,
+            hasDecimalSeparator && decSep ? afterDecimal : undefined,
+            tSep === true ? "," : tSep || "",
+            decSep
+          ),
+          numberingSystem
+        ),
+        prefix,
+        suffix,
+        addNegation,
+        isZero,
+        { negativeStyle, signDisplay, signPosition }
       );
     },
     [
       getSeparators,
-      decimalScale,
-      fixedDecimalScale,
+      minimumFractionDigits,
+      maximumFractionDigits,
+      trailingZeroDisplay,
       splitDecimal,
       formatThousand,
       prefix,
       suffix,
+      negativeStyle,
+      signDisplay,
+      signPosition,
+      numberingSystem,
     ]
   );
 
+  const formatAsNumber = useCallback(
+    (numStr: string): string => joinParts(formatAsNumberToParts(numStr)),
+    [formatAsNumberToParts]
+  );
+
+  /** Length of the sign/negation markers before and after the amount */
+  const getNegationBounds = useCallback(
+    (val: string): [number, number] => {
+      const isSign = (char?: string) => char === "-" || char === "+";
+      let before = 0;
+      let after = 0;
+
+      if (negativeStyle !== "minus") {
+        const { leading, trailing, body } = splitNegation(val);
+        before = leading.length;
+        after = trailing.length;
+        val = body;
+      }
+
+      // A plain sign may also sit after the prefix or before the suffix
+      if (isSign(val[0]) || isSign(val[prefix.length])) before += 1;
+      if (
+        isSign(val[val.length - 1]) ||
+        isSign(val[val.length - 1 - suffix.length])
+      ) {
+        after += 1;
+      }
+
+      return [before, after];
+    },
+    [negativeStyle, prefix, suffix]
+  );
+
   const removePrefixAndSuffix = useCallback(
     (val: string): string => {
       if (!format && val) {
-        const isNegative = val[0] === "-";
-
-        if (isNegative) val = val.substring(1, val.length);
+        let isNegative = false;
 
-        val =
-          prefix && val.indexOf(prefix) === 0
-            ? val.substring(prefix.length, val.length)
-            : val;
+        if (negativeStyle !== "minus") {
+          const { negative, body } = splitNegation(val);
+          isNegative = negative;
+          val = body;
+        }
 
-        const suffixLastIndex = val.lastIndexOf(suffix);
-        val =
-          suffix &&
-          suffixLastIndex !== -1 &&
-          suffixLastIndex === val.length - suffix.length
-            ? val.substring(0, suffixLastIndex)
-            : val;
+        const stripped = removeAffixesAndSign(val, prefix, suffix);
+        val = stripped.value;
 
-        if (isNegative) val = "-" + val;
+        if (isNegative || stripped.negative) val = "-" + val;
       }
       return val;
     },
-    [format, prefix, suffix]
+    [format, prefix, suffix, negativeStyle]
   );
 
   const removePatternFormatting = useCallback(
@@ -280,6 +385,9 @@ export function useFormatting({
     (val: string): string => {
       if (!val) return val;
 
+      // Digits of any script are stored as ASCII; pasted directional marks are dropped
+      val = normalizeDigits(stripBidiMarks(val));
+
       if (!format) {
         val = removePrefixAndSuffix(val);
         val = getFloatString(val);
@@ -332,6 +440,18 @@ export function useFormatting({
 
   const formatNegation = useCallback(
     (value = ""): string => {
+      if (negativeStyle !== "minus") {
+        // Typing "-", "(" or ")" anywhere toggles the sign
+        const { negative, body } = splitNegation(value);
+        const toggled = /[-()]|\bCR\b/i.test(body);
+        const isNegative = negative !== toggled;
+
+        return (
+          (isNegative && allowNegative ? "-" : "") +
+          body.replace(/[-()]|\b[CD]R\b/gi, "")
+        );
+      }
+
       const negationRegex = new RegExp("(-)");
       const doubleNegationRegex = new RegExp("(-)(.)*(-)");
 
@@ -346,7 +466,7 @@ export function useFormatting({
 
       return value;
     },
-    [allowNegative]
+    [allowNegative, negativeStyle]
   );
 
   const formatInput = useCallback(
@@ -366,19 +486,44 @@ export function useFormatting({
 
     if (value === undefined) return "";
 
-    if (typeof value === "number") {
-      value = value.toString();
+    if (typeof value === "number" || typeof value === "bigint") {
+      value = toDecimalString(value);
       isNumericString = true;
     }
 
-    if (isNumericString && !format && typeof decimalScale === "number") {
+    if (isNumericString && !format) {
+      value = applyValueScale(
+        fromValueUnit(value as string, valueUnit, minorUnitDigits),
+        valueScale
+      );
+    }
+
+    if (isNumericString && !format && roundingIncrement) {
+      value = applyRoundingIncrement(
+        value as string,
+        roundingIncrement,
+        roundingMode
+      );
+    }
+
+    if (isNumericString && !format && maximumFractionDigits !== undefined) {
       value = roundToPrecision(
         value as string,
-        decimalScale,
-        fixedDecimalScale
+        maximumFractionDigits,
+        false,
+        roundingMode
       );
     }
 
+    if (isNumericString && !format && trailingZeroDisplay === "stripIfInteger") {
+      value = stripZeroFraction(value as string);
+    }
+
+    // Values that round to zero lose their sign ("-0.001" → "0.00", not "-0.00")
+    if (isNumericString && !format && !/[1-9]/.test(value as string)) {
+      value = (value as string).replace("-", "");
+    }
+
     return isNumericString
       ? formatNumString(value as string)
       : formatInput(value as string);
@@ -386,17 +531,26 @@ export function useFormatting({
     valueProp,
     defaultValueProp,
     isNumericStringProp,
+    valueUnit,
+    minorUnitDigits,
+    valueScale,
     format,
-    decimalScale,
-    fixedDecimalScale,
+    maximumFractionDigits,
+    trailingZeroDisplay,
+    roundingMode,
+    roundingIncrement,
     formatNumString,
     formatInput,
   ]);
 
-  // fixLeadingZero is needed by handleBlur in the component; expose it here
+  // fixLeadingZero is needed by handleBlur in the component; expose it here.
+  // On blur a whole amount also loses its zeros with stripIfInteger ("5.00" → "5")
   const applyLeadingZeroFix = useCallback(
-    (numStr: string): string => fixLeadingZero(numStr) || "",
-    []
+    (numStr: string): string => {
+      const fixed = fixLeadingZero(numStr) || "";
+      return trailingZeroDisplay === "stripIfInteger" ? stripZeroFraction(fixed) : fixed;
+    },
+    [trailingZeroDisplay]
   );
 
   return {
@@ -408,6 +562,8 @@ export function useFormatting({
     formatThousand,
     formatWithPattern,
     formatAsNumber,
+    formatAsNumberToParts,
+    getNegationBounds,
     removePrefixAndSuffix,
     removePatternFormatting,
     removeFormatting,
@@ -1,6 +1,141 @@
+import {
+  DecimalInput,
+  RoundingMode,
+  compareDecimal,
+  decimalToNumber,
+  normalizeDecimal,
+  pow10,
+  roundDecimal,
+  roundSignificant,
+  roundToIncrement,
+  shiftDecimal,
+  toDecimalString,
+} from "./decimal";
+
+import { getCompactLabels, getLocaleConfig } from "./locales";
+
+export type { RoundingMode } from "./decimal";
+
 // Types
 export type ThousandSpacing = "2" | "2s" | "3" | "4";
 
+/**
+ * How negative amounts are marked
+ * - minus: -$1,234.56
+ * - parentheses: ($1,234.56)
+ * - trailingMinus: $1,234.56-
+ * - cr: $1,234.56 CR
+ * - crdr: $1,234.56 CR for negatives, $1,234.56 DR for positives
+ */
+export type NegativeStyle = "minus" | "parentheses" | "trailingMinus" | "cr" | "crdr";
+
+/**
+ * When to show a sign (mirrors Intl.NumberFormat `signDisplay`)
+ * - auto: negatives only
+ * - always: "+" for positives and zero, "-" for negatives
+ * - exceptZero: "+"/"-" for non-zero values, nothing for zero
+ * - negative: negatives only, never for negative zero
+ * - never: no sign at all
+ */
+export type SignDisplay = "auto" | "always" | "exceptZero" | "negative" | "never";
+
+/**
+ * Where the sign sits relative to the symbol
+ * - start: -$5 / -5 €
+ * - afterPrefix: $-5
+ * - beforeSuffix: 5- €
+ * - end: $5- / 5 €-
+ */
+export type SignPosition = "start" | "afterPrefix" | "beforeSuffix" | "end";
+
+/**
+ * Whether whole amounts keep their fraction (mirrors Intl.NumberFormat)
+ * - auto: "$5.00"
+ * - stripIfInteger: "$5", while "$5.50" keeps its zero
+ */
+export type TrailingZeroDisplay = "auto" | "stripIfInteger";
+
+/**
+ * How amounts are written
+ * - standard: 1,230,000
+ * - scientific: one integer digit, 1.23E6
+ * - engineering: exponent a multiple of 3, 12.3E3
+ */
+export type Notation = "standard" | "scientific" | "engineering";
+
+/**
+ * How the exponent is written in scientific / engineering notation
+ * - E: 1.23E6
+ * - e: 1.23e6
+ * - superscript: 1.23×10⁶
+ */
+export type ExponentStyle = "E" | "e" | "superscript";
+
+/**
+ * Digits used in formatted output, named as in Intl
+ * (latn 0123, arab ٠١٢٣, arabext ۰۱۲۳, deva ०१२३, beng ০১২৩, thai ๐๑๒๓)
+ */
+export type NumberingSystem =
+  | "latn"
+  | "arab"
+  | "arabext"
+  | "beng"
+  | "deva"
+  | "fullwide"
+  | "gujr"
+  | "guru"
+  | "khmr"
+  | "knda"
+  | "laoo"
+  | "mlym"
+  | "mymr"
+  | "orya"
+  | "tamldec"
+  | "telu"
+  | "thai"
+  | "tibt";
+
+/**
+ * Directional mark kept around an amount in mixed-direction text
+ * - lrm: LEFT-TO-RIGHT MARK (U+200E)
+ * - rlm: RIGHT-TO-LEFT MARK (U+200F), as Intl does for Hebrew
+ * - alm: ARABIC LETTER MARK (U+061C), as Intl does for Arabic
+ */
+export type BidiMark = "lrm" | "rlm" | "alm";
+
+/** Unit of raw values: "major" (12.34) or "minor" (1234 cents) */
+export type ValueUnit = "major" | "minor";
+
+export type CurrencyPartType =
+  | "sign"
+  | "prefix"
+  | "integer"
+  | "group"
+  | "decimal"
+  | "fraction"
+  | "compact"
+  | "exponentSeparator"
+  | "exponentMinusSign"
+  | "exponentInteger"
+  | "suffix"
+  | "literal";
+
+/** A typed segment of a formatted amount, like Intl.NumberFormat.formatToParts */
+export interface CurrencyPart {
+  type: CurrencyPartType;
+  value: string;
+}
+
+export interface NegationParts {
+  negative: boolean;
+  /** Marker found before the amount ("-", "(") */
+  leading: string;
+  /** Marker found after the amount (")", "-", " CR", " DR") */
+  trailing: string;
+  /** The amount without its negation markers */
+  body: string;
+}
+
 export interface SplitDecimalResult {
   beforeDecimal: string;
   afterDecimal: string;
@@ -15,6 +150,16 @@ export interface ValueObject {
   name?: string;
 }
 
+/**
+ * Precision for values whose absolute value is at least `min`; use either
+ * `decimals` or `significantDigits` (neither keeps `decimalScale`)
+ */
+export interface PrecisionStep {
+  min: number;
+  decimals?: number;
+  significantDigits?: number;
+}
+
 export interface FormatCurrencyOptions {
   decimalScale?: number;
   decimalSeparator?: string;
@@ -24,6 +169,40 @@ export interface FormatCurrencyOptions {
   suffix?: string;
   fixedDecimalScale?: boolean;
   allowNegative?: boolean;
+  /** How values are rounded to `decimalScale` (default: "halfUp") */
+  roundingMode?: RoundingMode;
+  /** Round to a multiple of this step before applying `decimalScale` (e.g. 0.05 for CHF cash) */
+  roundingIncrement?: number;
+  /** How negative amounts are marked (default: "minus") */
+  negativeStyle?: NegativeStyle;
+  /** When to show a sign (default: "auto") */
+  signDisplay?: SignDisplay;
+  /** Where a "-"/"+" sign sits relative to the prefix/suffix (default: "start") */
+  signPosition?: SignPosition;
+  /** Pad to at least this many significant digits; overrides `decimalScale` like Intl.NumberFormat */
+  minimumSignificantDigits?: number;
+  /** Round to at most this many significant digits; overrides `decimalScale` */
+  maximumSignificantDigits?: number;
+  /** Pick the precision by magnitude: true for defaultPrecisionSteps, or a custom table */
+  adaptivePrecision?: boolean | PrecisionStep[];
+  /** Pad to at least this many decimals; overrides `fixedDecimalScale` */
+  minimumFractionDigits?: number;
+  /** Round to at most this many decimals; overrides `decimalScale` */
+  maximumFractionDigits?: number;
+  /** Drop the fraction of whole amounts (default: "auto") */
+  trailingZeroDisplay?: TrailingZeroDisplay;
+  /** Standard, scientific or engineering notation (default: "standard") */
+  notation?: Notation;
+  /** Exponent style for scientific / engineering notation (default: "E") */
+  exponentStyle?: ExponentStyle;
+  /** Digits of the output (default: "latn"); input in any digits is accepted */
+  numberingSystem?: NumberingSystem;
+  /**
+   * Add a directional mark at both ends and before the sign so the amount keeps
+   * its order in RTL or mixed text; true picks ALM for Arabic-script affixes,
+   * RLM for Hebrew and LRM otherwise (default: false)
+   */
+  bidi?: boolean | BidiMark;
 }
 
 export interface ParseCurrencyOptions {
@@ -31,17 +210,118 @@ export interface ParseCurrencyOptions {
   thousandSeparator?: string | boolean;
   prefix?: string;
   suffix?: string;
+  /** Reject malformed input with structured errors instead of guessing (default: false) */
+  strict?: boolean;
+  /** Grouping checked in strict mode (default: "3") */
+  thousandSpacing?: ThousandSpacing;
+  /** Maximum fraction digits accepted in strict mode */
+  decimalScale?: number;
+  /** Accept an exponent ("1.23E6", "1.23×10⁶"); without it "e" is stripped like other text */
+  notation?: Notation;
+}
+
+export interface ParseCurrencyResult {
+  value: string;
+  floatValue: number;
+  formattedValue: string;
+}
+
+/**
+ * Why a strict parse failed
+ * - empty: nothing to parse
+ * - sign: duplicated, misplaced or unbalanced sign / parentheses
+ * - prefix / suffix: missing or not at the edge of the amount
+ * - invalidCharacter: anything that is not a digit or separator
+ * - multipleDecimalSeparators: more than one decimal separator
+ * - grouping: group separator not where `thousandSpacing` puts it
+ * - scale: more fraction digits than `decimalScale`
+ * - noDigits: separators or affixes without any digit
+ */
+export type ParseErrorCode =
+  | "empty"
+  | "sign"
+  | "prefix"
+  | "suffix"
+  | "invalidCharacter"
+  | "multipleDecimalSeparators"
+  | "grouping"
+  | "scale"
+  | "noDigits";
+
+export interface ParseError {
+  code: ParseErrorCode;
+  /** Position in the input string where the problem starts */
+  index: number;
+  message: string;
+}
+
+export interface ParseAmountAutoOptions {
+  /** Locale whose separators break ties such as "1,234" (see getLocaleConfig) */
+  locale?: string;
+  /** Explicit hint; overrides the locale's decimal separator */
+  decimalSeparator?: string;
+  /** Explicit hint; overrides the locale's thousand separator */
+  thousandSeparator?: string | boolean;
 }
 
+/**
+ * How sure parseAmountAuto is about the separators it picked
+ * - high: the string itself is unambiguous ("1.234,56", "1 234", "1,5")
+ * - medium: ambiguous, settled by the locale hint ("1,234" with en-US)
+ * - low: ambiguous without a hint, or the grouping looks wrong
+ */
+export type DetectionConfidence = "high" | "medium" | "low";
+
+export interface ParseAmountAutoResult extends ParseCurrencyResult {
+  confidence: DetectionConfidence;
+  /** Options that reproduce the input with formatCurrency / parseCurrency */
+  options: {
+    decimalSeparator: string;
+    thousandSeparator: string;
+    thousandSpacing: ThousandSpacing;
+    prefix: string;
+    suffix: string;
+  };
+}
+
+export type StrictParseResult =
+  | ({ ok: true } & ParseCurrencyResult)
+  | { ok: false; errors: ParseError[]; formattedValue: string };
+
+/** One step of a compact scale system: values ≥ 10^exponent get `label` */
+export interface CompactScale {
+  exponent: number;
+  label: string;
+  /**
+   * Label per CLDR plural category, picked with Intl.PluralRules
+   * (e.g. { one: " Million", other: " Millionen" }); falls back to `label`
+   */
+  plurals?: Partial<Record<Intl.LDMLPluralRule, string>>;
+}
+
+/** Short ("1.2M") or long ("1.2 million") compact labels */
+export type CompactDisplayStyle = "short" | "long";
+
 export interface CompactDisplayOptions {
   thousand?: string;
   million?: string;
   billion?: string;
   trillion?: string;
+  /**
+   * Full scale table; replaces the thousand/million/billion/trillion steps
+   * (e.g. lakh/crore or 万/亿)
+   */
+  scales?: CompactScale[];
+  /** Locale whose plural rules pick between `plurals` labels */
+  locale?: string;
 }
 
 export interface FormatCompactOptions extends FormatCurrencyOptions {
-  compactDisplay?: CompactDisplayOptions;
+  /** Label table, or "short" / "long" to read the labels of `locale` from Intl */
+  compactDisplay?: CompactDisplayOptions | CompactDisplayStyle;
+  /** Locale for "short" / "long" labels and plural rules */
+  locale?: string;
+  /** Smallest value shown with the first scale (default: that scale's 10^exponent) */
   compactThreshold?: number;
 }
 
@@ -53,9 +333,174 @@ export const thousandGroupSpacing: Record<string, ThousandSpacing> = {
   four: "4",
 };
 
+/**
+ * Default adaptive precision: cents from 1 up, 4 decimals down to 0.01,
+ * and 3 significant digits below that (0.0000123 instead of 0.00)
+ */
+export const defaultPrecisionSteps: PrecisionStep[] = [
+  { min: 1, decimals: 2 },
+  { min: 0.01, decimals: 4 },
+  { min: 0, significantDigits: 3 },
+];
+
+/** Code point of the zero of each numbering system */
+export const numberingSystemZeros: Record<NumberingSystem, number> = {
+  latn: 0x30,
+  arab: 0x660,
+  arabext: 0x6f0,
+  beng: 0x9e6,
+  deva: 0x966,
+  fullwide: 0xff10,
+  gujr: 0xae6,
+  guru: 0xa66,
+  khmr: 0x17e0,
+  knda: 0xce6,
+  laoo: 0xed0,
+  mlym: 0xd66,
+  mymr: 0x1040,
+  orya: 0xb66,
+  tamldec: 0xbe6,
+  telu: 0xc66,
+  thai: 0xe50,
+  tibt: 0xf20,
+};
+
+/**
+ * Zeros of every run of ten decimal digits in the Basic Multilingual Plane
+ * (Unicode category Nd); each digit is one UTF-16 unit, so swapping digits
+ * never moves the caret
+ */
+const DIGIT_ZEROS = [
+  0x30, 0x660, 0x6f0, 0x7c0, 0x966, 0x9e6, 0xa66, 0xae6, 0xb66, 0xbe6, 0xc66,
+  0xce6, 0xd66, 0xde6, 0xe50, 0xed0, 0xf20, 0x1040, 0x1090, 0x17e0, 0x1810,
+  0x1946, 0x19d0, 0x1a80, 0x1a90, 0x1b50, 0x1bb0, 0x1c40, 0x1c50, 0xa620,
+  0xa8d0, 0xa900, 0xa9d0, 0xa9f0, 0xaa50, 0xabf0, 0xff10,
+];
+
+const digitRange = (zero: number): string =>
+  String.fromCharCode(zero) + "-" + String.fromCharCode(zero + 9);
+
+/** Character class matching any decimal digit, for use in RegExp sources */
+export const DIGIT_PATTERN = "[" + DIGIT_ZEROS.map(digitRange).join("") + "]";
+
+const DIGIT_REGEX = new RegExp(DIGIT_PATTERN);
+const NON_ASCII_DIGIT_REGEX = new RegExp(
+  "[" + DIGIT_ZEROS.slice(1).map(digitRange).join("") + "]",
+  "g"
+);
+
+/**
+ * Replace every Unicode decimal digit with its ASCII counterpart
+ *
+ * @example
+ * normalizeDigits("١٬٢٣٤٫٥٦");  // → "1٬234٫56"
+ * normalizeDigits("๑๒๓");       // → "123"
+ */
+export const normalizeDigits = (value: string): string => {
+  return value.replace(NON_ASCII_DIGIT_REGEX, (digit) => {
+    const code = digit.charCodeAt(0);
+    for (let i = 0; i < DIGIT_ZEROS.length; i++) {
+      if (code >= DIGIT_ZEROS[i] && code <= DIGIT_ZEROS[i] + 9) {
+        return String(code - DIGIT_ZEROS[i]);
+      }
+    }
+    return digit;
+  });
+};
+
+/**
+ * Write the ASCII digits of a string in another numbering system
+ *
+ * @example
+ * toNativeDigits("1,234.56", "arab");  // → "١,٢٣٤.٥٦"
+ * toNativeDigits("123", "deva");       // → "१२३"
+ */
+export const toNativeDigits = (
+  value: string,
+  numberingSystem: NumberingSystem = "latn"
+): string => {
+  const zero = numberingSystemZeros[numberingSystem];
+  if (!zero || zero === 0x30) return value;
+  return value.replace(/[0-9]/g, (digit) => String.fromCharCode(zero + Number(digit)));
+};
+
+/** Swap the digits of integer, fraction and exponent parts; affixes stay as given */
+export const toNativeDigitParts = (
+  parts: CurrencyPart[],
+  numberingSystem?: NumberingSystem
+): CurrencyPart[] => {
+  if (!numberingSystem || numberingSystem === "latn") return parts;
+  return parts.map((part) =>
+    part.type === "integer" || part.type === "fraction" || part.type === "exponentInteger"
+      ? { ...part, value: toNativeDigits(part.value, numberingSystem) }
+      : part
+  );
+};
+
+export const bidiMarks: Record<BidiMark, string> = {
+  lrm: "\u200E",
+  rlm: "\u200F",
+  alm: "\u061C",
+};
+
+/** Directional marks, embeddings and isolates (LRM, RLM, ALM, LRE…PDF, LRI…PDI) */
+const BIDI_CONTROL_REGEX = /[\u061C\u200E\u200F\u202A-\u202E\u2066-\u2069]/g;
+const ARABIC_SCRIPT_REGEX = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+// Includes the new shekel sign (₪), which is not in the Hebrew block
+const HEBREW_SCRIPT_REGEX = /[\u0590-\u05FF\uFB1D-\uFB4F\u20AA]/;
+
+/**
+ * Remove directional marks and isolates from formatted text
+ *
+ * @example
+ * stripBidiMarks("\u200F1,234.56 د.إ\u200F"); // → "1,234.56 د.إ"
+ */
+export const stripBidiMarks = (value: string): string => {
+  return value.replace(BIDI_CONTROL_REGEX, "");
+};
+
+/**
+ * Wrap formatted parts in directional marks: one at each end and one right
+ * before a "-"/"+" sign so the sign stays attached to the digits
+ */
+const toBidiParts = (
+  parts: CurrencyPart[],
+  bidi: true | BidiMark
+): CurrencyPart[] => {
+  if (parts.length === 0) return parts;
+
+  let markName: BidiMark = "lrm";
+  if (bidi !== true) {
+    markName = bidi;
+  } else {
+    const affixes = parts
+      .filter((part) => part.type !== "integer" && part.type !== "fraction")
+      .map((part) => part.value)
+      .join("");
+    if (ARABIC_SCRIPT_REGEX.test(affixes)) markName = "alm";
+    else if (HEBREW_SCRIPT_REGEX.test(affixes)) markName = "rlm";
+  }
+
+  const mark: CurrencyPart = { type: "literal", value: bidiMarks[markName] };
+  const result: CurrencyPart[] = [mark];
+  parts.forEach((part) => {
+    // A sign at the very start already follows the leading mark
+    if (part.type === "sign" && (part.value === "-" || part.value === "+") && result.length > 1) {
+      result.push(mark);
+    }
+    result.push(part);
+  });
+  result.push(mark);
+  return result;
+};
+
 // Basic utility functions
 export const charIsNumber = (char?: string): boolean => {
-  return !!(char || "").match(/\d/);
+  return DIGIT_REGEX.test(char || "");
+};
+
+export const joinParts = (parts: CurrencyPart[]): string => {
+  return parts.map((part) => part.value).join("");
 };
 
 export const escapeRegExp = (str: string): string => {
@@ -65,13 +510,16 @@ export const escapeRegExp = (str: string): string => {
 export const fixLeadingZero = (numStr?: string): string | undefined => {
   if (!numStr) return numStr;
 
-  const isNegative = numStr[0] === "-";
+  let isNegative = numStr[0] === "-";
   if (isNegative) numStr = numStr.substring(1, numStr.length);
 
   const parts = numStr.split(".");
   const beforeDecimal = parts[0].replace(/^0+/, "") || "0";
   const afterDecimal = parts[1] || "";
 
+  // Negative zero ("-0", "-0.00") settles to plain zero
+  if (!/[1-9]/.test(beforeDecimal + afterDecimal)) isNegative = false;
+
   return `${isNegative ? "-" : ""}${beforeDecimal}${
     afterDecimal ? `.${afterDecimal}` : ""
   }`;
@@ -88,16 +536,400 @@ export const splitString = (str: string, index: number): [string, string] => {
 export const limitToScale = (
   numStr: string,
   scale: number,
-  fixedDecimalScale: boolean
+  fixedDecimalScale: boolean,
+  minimumDigits = fixedDecimalScale ? scale : 0
 ): string => {
   let str = "";
-  const filler = fixedDecimalScale ? "0" : "";
   for (let i = 0; i <= scale - 1; i++) {
-    str += numStr[i] || filler;
+    str += numStr[i] || (i < minimumDigits ? "0" : "");
   }
   return str;
 };
 
+/**
+ * Range of decimals to show: `minimumFractionDigits` /
+ * `maximumFractionDigits`, falling back to `decimalScale` and
+ * `fixedDecimalScale`. `maximum` is undefined when decimals are not limited.
+ *
+ * @example
+ * resolveFractionDigits({ minimumFractionDigits: 2, maximumFractionDigits: 4 }); // → { minimum: 2, maximum: 4 }
+ * resolveFractionDigits({ decimalScale: 2, fixedDecimalScale: true });           // → { minimum: 2, maximum: 2 }
+ * resolveFractionDigits({ minimumFractionDigits: 2 });                           // → { minimum: 2, maximum: undefined }
+ */
+export const resolveFractionDigits = (
+  options: Pick<
+    FormatCurrencyOptions,
+    "decimalScale" | "fixedDecimalScale" | "minimumFractionDigits" | "maximumFractionDigits"
+  >
+): { minimum: number; maximum?: number } => {
+  const { decimalScale, fixedDecimalScale, minimumFractionDigits, maximumFractionDigits } = options;
+
+  if (
+    minimumFractionDigits !== undefined &&
+    maximumFractionDigits !== undefined &&
+    minimumFractionDigits > maximumFractionDigits
+  ) {
+    throw new Error(
+      `minimumFractionDigits (${minimumFractionDigits}) exceeds maximumFractionDigits (${maximumFractionDigits})`
+    );
+  }
+
+  let minimum =
+    minimumFractionDigits ?? (fixedDecimalScale && decimalScale !== undefined ? decimalScale : 0);
+  let maximum = maximumFractionDigits;
+
+  if (maximum === undefined && decimalScale !== undefined) {
+    maximum = Math.max(decimalScale, minimum);
+  }
+  if (maximum !== undefined) {
+    minimum = Math.min(minimum, maximum);
+  }
+
+  return { minimum, maximum };
+};
+
+/** Drop an all-zero fraction: "5.00" → "5", while "5.50" stays */
+export const stripZeroFraction = (numStr: string): string => {
+  return numStr.replace(/\.0*$/, "");
+};
+
+/**
+ * Get the markers wrapped around an amount for a negative style
+ * Returns [before, after]; positives are unmarked except for "crdr"
+ */
+export const getNegationAffixes = (
+  negativeStyle: NegativeStyle = "minus",
+  negative = true
+): [string, string] => {
+  if (!negative) {
+    return negativeStyle === "crdr" ? ["", " DR"] : ["", ""];
+  }
+
+  switch (negativeStyle) {
+    case "parentheses":
+      return ["(", ")"];
+    case "trailingMinus":
+      return ["", "-"];
+    case "cr":
+    case "crdr":
+      return ["", " CR"];
+    case "minus":
+    default:
+      return ["-", ""];
+  }
+};
+
+/**
+ * Detect and strip negation markers of any supported style:
+ * leading "-", "(…)" (also half-typed), trailing "-", and CR/DR labels
+ *
+ * @example
+ * splitNegation("($1,234.56)")  // → { negative: true, body: "$1,234.56", leading: "(", trailing: ")" }
+ * splitNegation("1,234.56 CR")  // → { negative: true, body: "1,234.56", leading: "", trailing: " CR" }
+ */
+export const splitNegation = (value: string): NegationParts => {
+  const isSign = (char: string) => char === "-" || char === "+";
+
+  const crDrMatch = value.match(/\s*\b(CR|DR)$/i);
+  if (crDrMatch) {
+    const body = value.substring(0, value.length - crDrMatch[0].length);
+    const inner = splitNegation(body);
+    return {
+      ...inner,
+      negative: crDrMatch[1].toUpperCase() === "CR" || inner.negative,
+      trailing: inner.trailing + crDrMatch[0],
+    };
+  }
+
+  const leading = value[0] === "(" || isSign(value[0]) ? value[0] : "";
+  const trailingChar = value[value.length - 1];
+  const trailing =
+    value.length > leading.length && (trailingChar === ")" || isSign(trailingChar))
+      ? trailingChar
+      : "";
+
+  return {
+    negative: /[-(]/.test(leading) || /[-)]/.test(trailing),
+    leading,
+    trailing,
+    body: value.substring(leading.length, value.length - trailing.length),
+  };
+};
+
+/**
+ * Pick the sign character for a value according to `signDisplay`
+ */
+export const resolveSign = (
+  negative: boolean,
+  isZero: boolean,
+  signDisplay: SignDisplay = "auto"
+): "-" | "+" | "" => {
+  switch (signDisplay) {
+    case "never":
+      return "";
+    case "always":
+      return negative ? "-" : "+";
+    case "exceptZero":
+      return isZero ? "" : negative ? "-" : "+";
+    case "negative":
+      return negative && !isZero ? "-" : "";
+    case "auto":
+    default:
+      return negative ? "-" : "";
+  }
+};
+
+/** Split a marker such as " CR" into literal whitespace and the marker itself */
+const toAffixParts = (
+  marker: string,
+  type: CurrencyPartType
+): CurrencyPart[] => {
+  const match = marker.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return [
+    { type: "literal" as const, value: match[1] },
+    { type, value: match[2] },
+    { type: "literal" as const, value: match[3] },
+  ].filter((part) => part.value !== "");
+};
+
+/**
+ * Assemble prefix, amount parts and suffix with the sign or negation markers
+ */
+export const applySignToParts = (
+  amount: CurrencyPart[],
+  prefix: string,
+  suffix: string,
+  negative: boolean,
+  isZero: boolean,
+  options: Pick<FormatCurrencyOptions, "negativeStyle" | "signDisplay" | "signPosition"> = {}
+): CurrencyPart[] => {
+  const {
+    negativeStyle = "minus",
+    signDisplay = "auto",
+    signPosition = "start",
+  } = options;
+  const sign = resolveSign(negative, isZero, signDisplay);
+  const prefixParts = prefix ? [{ type: "prefix" as const, value: prefix }] : [];
+  const suffixParts = suffix ? [{ type: "suffix" as const, value: suffix }] : [];
+  const signParts = sign ? [{ type: "sign" as const, value: sign }] : [];
+
+  if (sign === "-" && negativeStyle !== "minus" && negativeStyle !== "trailingMinus") {
+    const [before, after] = getNegationAffixes(negativeStyle, true);
+    return [
+      ...toAffixParts(before, "sign"),
+      ...prefixParts,
+      ...amount,
+      ...suffixParts,
+      ...toAffixParts(after, "sign"),
+    ];
+  }
+
+  if (negativeStyle === "crdr" && !negative && signDisplay !== "never") {
+    return [
+      ...prefixParts,
+      ...amount,
+      ...suffixParts,
+      ...toAffixParts(getNegationAffixes(negativeStyle, false)[1], "sign"),
+    ];
+  }
+
+  switch (negativeStyle === "trailingMinus" ? "end" : signPosition) {
+    case "afterPrefix":
+      return [...prefixParts, ...signParts, ...amount, ...suffixParts];
+    case "beforeSuffix":
+      return [...prefixParts, ...amount, ...signParts, ...suffixParts];
+    case "end":
+      return [...prefixParts, ...amount, ...suffixParts, ...signParts];
+    case "start":
+    default:
+      return [...signParts, ...prefixParts, ...amount, ...suffixParts];
+  }
+};
+
+/**
+ * Assemble prefix, amount and suffix with the sign or negation markers
+ *
+ * @example
+ * applySign("5", "$", "", true, false)                                  // → "-$5"
+ * applySign("5", "$", "", true, false, { signPosition: "afterPrefix" }) // → "$-5"
+ * applySign("5", "", " €", true, false, { signPosition: "end" })        // → "5 €-"
+ * applySign("5", "$", "", true, false, { negativeStyle: "parentheses" }) // → "($5)"
+ */
+export const applySign = (
+  amount: string,
+  prefix: string,
+  suffix: string,
+  negative: boolean,
+  isZero: boolean,
+  options: Pick<FormatCurrencyOptions, "negativeStyle" | "signDisplay" | "signPosition"> = {}
+): string => {
+  return joinParts(
+    applySignToParts(
+      [{ type: "integer", value: amount }],
+      prefix,
+      suffix,
+      negative,
+      isZero,
+      options
+    )
+  );
+};
+
+/**
+ * Strip prefix and suffix along with a plain "-"/"+" sign on either side of them
+ * ("-$5", "$-5", "5- €", "5 €-")
+ */
+export const removeAffixesAndSign = (
+  value: string,
+  prefix: string,
+  suffix: string
+): { negative: boolean; value: string } => {
+  let negative = false;
+
+  const takeSign = (atEnd: boolean): void => {
+    const char = atEnd ? value[value.length - 1] : value[0];
+    if (char === "-" || char === "+") {
+      negative = negative || char === "-";
+      value = atEnd ? value.substring(0, value.length - 1) : value.substring(1);
+    }
+  };
+
+  takeSign(false);
+  if (prefix && value.startsWith(prefix)) {
+    value = value.substring(prefix.length);
+  }
+  takeSign(false);
+
+  takeSign(true);
+  if (suffix && value.endsWith(suffix)) {
+    value = value.substring(0, value.length - suffix.length);
+  }
+  takeSign(true);
+
+  return { negative, value };
+};
+
+const SUPERSCRIPT_DIGITS = "\u2070\u00B9\u00B2\u00B3\u2074\u2075\u2076\u2077\u2078\u2079";
+
+/** Exponent at the end of an amount: E6, e-6, ×10⁶, ×10⁻⁶, x10^6 */
+const EXPONENT_PATTERN =
+  /\s*(?:[eE]|[×x]\s*10\^?)\s*([-+\u2212\u207A\u207B]?)([0-9\u2070\u00B9\u00B2\u00B3\u2074-\u2079]+)$/;
+
+/**
+ * Split an exponent off an amount: "1.23E6" → ["1.23", 6],
+ * "1.23×10⁻⁶" → ["1.23", -6]; amounts without one get 0
+ */
+const splitExponent = (value: string): [string, number] => {
+  const match = value.match(EXPONENT_PATTERN);
+  if (!match) return [value, 0];
+
+  const digits = match[2].replace(/[^0-9]/g, (digit) =>
+    String(SUPERSCRIPT_DIGITS.indexOf(digit))
+  );
+  const exponent = parseInt(digits, 10);
+  return [
+    value.substring(0, match.index),
+    /[-\u2212\u207B]/.test(match[1]) ? -exponent : exponent,
+  ];
+};
+
+/** Exponent parts: "E6", "e-6" or "×10⁶" */
+const toExponentParts = (
+  exponent: number,
+  exponentStyle: ExponentStyle
+): CurrencyPart[] => {
+  const superscript = exponentStyle === "superscript";
+  const digits = String(Math.abs(exponent));
+  const parts: CurrencyPart[] = [
+    { type: "exponentSeparator", value: superscript ? "×10" : exponentStyle },
+  ];
+
+  if (exponent < 0) {
+    parts.push({ type: "exponentMinusSign", value: superscript ? "\u207B" : "-" });
+  }
+  parts.push({
+    type: "exponentInteger",
+    value: superscript
+      ? digits.replace(/\d/g, (digit) => SUPERSCRIPT_DIGITS[Number(digit)])
+      : digits,
+  });
+  return parts;
+};
+
+/**
+ * Round a numeric string to a multiple of `increment` (cash rounding)
+ * Keeps the original number of decimals so fixed scales still line up
+ */
+export const applyRoundingIncrement = (
+  numStr: string,
+  increment: number | undefined,
+  roundingMode: RoundingMode = "halfUp"
+): string => {
+  if (!increment || increment <= 0 || !/\d/.test(numStr)) return numStr;
+
+  const rounded = roundToIncrement(
+    numStr,
+    toDecimalString(increment),
+    roundingMode
+  );
+  const [intPart, decimalPart = ""] = rounded.split(".");
+  const fractionLength = Math.max(
+    (numStr.split(".")[1] || "").length,
+    decimalPart.length
+  );
+
+  return fractionLength
+    ? intPart + "." + decimalPart.padEnd(fractionLength, "0")
+    : intPart;
+};
+
+/**
+ * Convert a raw major-unit string to `unit`, with `scale` minor digits
+ * Partial input ("", "-") passes through unchanged.
+ *
+ * @example
+ * toValueUnit("12.34", "minor", 2)  // → "1234"
+ * toValueUnit("12.34", "major", 2)  // → "12.34"
+ */
+export const toValueUnit = (
+  numStr: string,
+  unit: ValueUnit,
+  scale: number,
+  roundingMode: RoundingMode = "halfUp"
+): string => {
+  if (unit !== "minor" || !/\d/.test(numStr)) return numStr;
+  return roundDecimal(shiftDecimal(numStr, scale), 0, roundingMode);
+};
+
+/**
+ * Convert a raw string in `unit` back to major units
+ *
+ * @example
+ * fromValueUnit("1234", "minor", 2)  // → "12.34"
+ */
+export const fromValueUnit = (
+  numStr: string,
+  unit: ValueUnit,
+  scale: number
+): string => {
+  if (unit !== "minor" || !/\d/.test(numStr)) return numStr;
+  return shiftDecimal(numStr, -scale);
+};
+
+/**
+ * Move a raw value between stored and displayed magnitude by `places`
+ * powers of ten; with a valueScale of 2 the stored fraction 0.125 is shown
+ * as 12.5 (percent). Partial input ("", "-") passes through unchanged.
+ *
+ * @example
+ * applyValueScale("0.125", 2)   // → "12.5"
+ * applyValueScale("12.5", -2)   // → "0.125"
+ */
+export const applyValueScale = (numStr: string, places: number): string => {
+  if (!places || !/\d/.test(numStr)) return numStr;
+  return shiftDecimal(numStr, places);
+};
+
 /**
  * Round prop value to given scale
  * Not using .round or .toFixed because that will break with big numbers
@@ -105,33 +937,93 @@ export const limitToScale = (
 export const roundToPrecision = (
   numStr: string,
   scale: number,
-  fixedDecimalScale: boolean
+  fixedDecimalScale: boolean,
+  roundingMode: RoundingMode = "halfUp"
 ): string => {
-  const numberParts = numStr.split(".");
-  const roundedDecimalParts = parseFloat(`0.${numberParts[1] || "0"}`)
-    .toFixed(scale)
-    .split(".");
-
-  const intPart = numberParts[0]
-    .split("")
-    .reverse()
-    .reduce((roundedStr, current, idx) => {
-      if (roundedStr.length > idx) {
-        return (
-          (Number(roundedStr[0]) + Number(current)).toString() +
-          roundedStr.substring(1, roundedStr.length)
-        );
-      }
-      return current + roundedStr;
-    }, roundedDecimalParts[0]);
+  const fractionLength = (numStr.split(".")[1] || "").length;
+  const [intPart, decimalPart = ""] = roundDecimal(
+    numStr,
+    scale,
+    roundingMode
+  ).split(".");
+  const keptDecimals = fixedDecimalScale
+    ? decimalPart
+    : decimalPart.substring(0, Math.min(fractionLength, scale));
+
+  return intPart + (keptDecimals ? "." + keptDecimals : "");
+};
 
-  const decimalPart = limitToScale(
-    roundedDecimalParts[1] || "",
-    (numberParts[1] || "").length,
-    fixedDecimalScale
-  );
+/**
+ * Round to significant digits like Intl.NumberFormat: at most
+ * `maximumDigits`, padded with trailing zeros to at least `minimumDigits`
+ *
+ * @example
+ * roundToSignificant("1234.5", 1, 3);      // → "1230"
+ * roundToSignificant("0.000012345", 1, 2); // → "0.000012"
+ * roundToSignificant("1.5", 3);            // → "1.50"
+ */
+export const roundToSignificant = (
+  numStr: string,
+  minimumDigits = 1,
+  maximumDigits = 21,
+  roundingMode: RoundingMode = "halfUp"
+): string => {
+  if (minimumDigits > maximumDigits) {
+    throw new Error(
+      `minimumSignificantDigits (${minimumDigits}) exceeds maximumSignificantDigits (${maximumDigits})`
+    );
+  }
+
+  const rounded = normalizeDecimal(roundSignificant(numStr, maximumDigits, roundingMode));
+  const shown = Math.max(1, rounded.replace(/^-?[0.]*/, "").replace(".", "").length);
+  const padding = minimumDigits - shown;
+
+  if (padding <= 0) return rounded;
+  return rounded + (rounded.includes(".") ? "" : ".") + "0".repeat(padding);
+};
+
+interface ResolvedPrecision {
+  decimalScale?: number;
+  minimumSignificantDigits?: number;
+  maximumSignificantDigits?: number;
+}
+
+/**
+ * Precision for an (absolute) amount: its adaptive step, else the
+ * significant-digit options, else `decimalScale`
+ */
+const resolvePrecision = (
+  absolute: string,
+  options: FormatCurrencyOptions,
+  decimalScale = options.decimalScale
+): ResolvedPrecision => {
+  const { adaptivePrecision, minimumSignificantDigits, maximumSignificantDigits } = options;
+
+  if (adaptivePrecision) {
+    const steps = adaptivePrecision === true ? defaultPrecisionSteps : adaptivePrecision;
+    const step = steps
+      .slice()
+      .sort((a, b) => b.min - a.min)
+      .find((candidate) => compareDecimal(absolute, toDecimalString(candidate.min)) >= 0);
+
+    if (step) {
+      return step.significantDigits !== undefined
+        ? { maximumSignificantDigits: step.significantDigits }
+        : { decimalScale: step.decimals ?? decimalScale };
+    }
+  }
+
+  if (minimumSignificantDigits !== undefined || maximumSignificantDigits !== undefined) {
+    return { minimumSignificantDigits, maximumSignificantDigits };
+  }
+  return { decimalScale };
+};
 
-  return intPart + (decimalPart ? "." + decimalPart : "");
+const usesSignificantDigits = (precision: ResolvedPrecision): boolean => {
+  return (
+    precision.minimumSignificantDigits !== undefined ||
+    precision.maximumSignificantDigits !== undefined
+  );
 };
 
 export const omit = <T extends Record<string, unknown>>(
@@ -182,30 +1074,97 @@ export const setCaretPosition = (
   return false;
 };
 
+/** Whether an input lays out right to left (dir="rtl" on it or inherited via CSS) */
+export const isRtlInput = (el: HTMLInputElement | null): boolean => {
+  if (!el) return false;
+
+  const dir = (el.dir || "").toLowerCase();
+  if (dir === "rtl" || dir === "ltr") return dir === "rtl";
+
+  if (typeof window !== "undefined" && typeof window.getComputedStyle === "function") {
+    return window.getComputedStyle(el).direction === "rtl";
+  }
+  return false;
+};
+
+/** Placeholder separator marking digit-group boundaries before splitting into parts */
+export const GROUP_MARK = "\u0000";
+
 /**
- * Format a number/string to currency format
- * Standalone utility function that doesn't require rendering a component
+ * Build integer/group/decimal/fraction parts. Group boundaries in
+ * `integer` are marked with GROUP_MARK; `fraction` is undefined when
+ * there is no decimal part.
  */
-export const formatCurrency = (
-  value: string | number | null | undefined,
+export const toNumberParts = (
+  integer: string,
+  fraction: string | undefined,
+  groupSeparator: string,
+  decimalSeparator: string
+): CurrencyPart[] => {
+  const parts: CurrencyPart[] = [];
+
+  integer.split(GROUP_MARK).forEach((group, index) => {
+    if (index > 0) parts.push({ type: "group", value: groupSeparator });
+    if (group) parts.push({ type: "integer", value: group });
+  });
+
+  if (fraction !== undefined) {
+    parts.push({ type: "decimal", value: decimalSeparator });
+    if (fraction) parts.push({ type: "fraction", value: fraction });
+  }
+
+  return parts;
+};
+
+/**
+ * Format a number/string to currency format as typed segments, for styled
+ * rendering (e.g. a smaller fraction or a muted symbol)
+ *
+ * @example
+ * formatCurrencyToParts(-1234.5, { prefix: "$", decimalScale: 2, fixedDecimalScale: true });
+ * // Output: [
+ * //   { type: "sign", value: "-" }, { type: "prefix", value: "$" },
+ * //   { type: "integer", value: "1" }, { type: "group", value: "," },
+ * //   { type: "integer", value: "234" }, { type: "decimal", value: "." },
+ * //   { type: "fraction", value: "50" }
+ * // ]
+ */
+export const formatCurrencyToParts = (
+  value: DecimalInput | null | undefined,
   options: FormatCurrencyOptions = {}
-): string => {
+): CurrencyPart[] => {
   const {
-    decimalScale,
     decimalSeparator = ".",
     thousandSeparator = ",",
     thousandSpacing = "3",
     prefix = "",
     suffix = "",
-    fixedDecimalScale = false,
     allowNegative = true,
+    roundingMode = "halfUp",
+    roundingIncrement,
+    trailingZeroDisplay = "auto",
+    notation = "standard",
+    numberingSystem,
+    bidi = false,
   } = options;
 
   if (value === null || value === undefined || value === "") {
-    return "";
+    return [];
+  }
+
+  // Native digits are swapped in once the ASCII parts are built
+  if (numberingSystem && numberingSystem !== "latn") {
+    return toNativeDigitParts(
+      formatCurrencyToParts(value, { ...options, numberingSystem: "latn" }),
+      numberingSystem
+    );
+  }
+
+  if (bidi) {
+    return toBidiParts(formatCurrencyToParts(value, { ...options, bidi: false }), bidi);
   }
 
-  let numStr = typeof value === "number" ? value.toString() : value;
+  let numStr = typeof value === "string" ? normalizeDigits(value) : toDecimalString(value);
 
   // Handle negation
   const hasNegation = numStr[0] === "-";
@@ -225,9 +1184,43 @@ export const formatCurrency = (
       numStr.substring(decimalIndex + 1).replace(/\./g, "");
   }
 
-  // Apply decimal scale
-  if (decimalScale !== undefined) {
-    numStr = roundToPrecision(numStr, decimalScale, fixedDecimalScale);
+  // Apply rounding increment (cash rounding)
+  if (roundingIncrement) {
+    numStr = applyRoundingIncrement(
+      (hasNegation ? "-" : "") + numStr,
+      roundingIncrement,
+      roundingMode
+    ).replace("-", "");
+  }
+
+  if (notation === "scientific" || notation === "engineering") {
+    return formatScientificToParts((hasNegation ? "-" : "") + numStr, addNegation, options);
+  }
+
+  // Significant digits replace the fraction digits, as in Intl.NumberFormat
+  const precision = resolvePrecision(numStr, options);
+  const significant = usesSignificantDigits(precision);
+  const fractionDigits = significant
+    ? { minimum: 0, maximum: undefined }
+    : resolveFractionDigits({ ...options, decimalScale: precision.decimalScale });
+
+  if (significant) {
+    numStr = roundToSignificant(
+      (hasNegation ? "-" : "") + numStr,
+      precision.minimumSignificantDigits,
+      precision.maximumSignificantDigits,
+      roundingMode
+    ).replace("-", "");
+  }
+
+  // Apply decimal scale (rounded with its sign so ceil/floor are directional)
+  if (fractionDigits.maximum !== undefined) {
+    numStr = roundToPrecision(
+      (hasNegation ? "-" : "") + numStr,
+      fractionDigits.maximum,
+      false,
+      roundingMode
+    ).replace("-", "");
   }
 
   // Split into parts
@@ -235,15 +1228,20 @@ export const formatCurrency = (
   let beforeDecimal = parts[0] || "0";
   let afterDecimal = parts[1] || "";
 
-  // Apply decimal scale to afterDecimal
-  if (decimalScale !== undefined) {
-    afterDecimal = limitToScale(afterDecimal, decimalScale, fixedDecimalScale);
+  // Pad afterDecimal to the minimum fraction digits
+  if (fractionDigits.minimum > 0) {
+    afterDecimal = limitToScale(
+      afterDecimal,
+      Math.max(afterDecimal.length, fractionDigits.minimum),
+      false,
+      fractionDigits.minimum
+    );
   }
 
   // Apply thousand separator
-  if (thousandSeparator) {
-    const sep =
-      typeof thousandSeparator === "boolean" ? "," : thousandSeparator;
+  const sep =
+    typeof thousandSeparator === "boolean" ? "," : thousandSeparator;
+  if (sep) {
     let digitalGroup: RegExp;
 
     switch (thousandSpacing) {
@@ -260,41 +1258,109 @@ export const formatCurrency = (
         digitalGroup = /(\d)(?=(\d{3})+(?!\d))/g;
     }
 
-    beforeDecimal = beforeDecimal.replace(digitalGroup, "$1" + sep);
+    // Mark group boundaries so they can become separate parts
+    beforeDecimal = beforeDecimal.replace(digitalGroup, "$1" + GROUP_MARK);
   }
 
-  // Build result
+  // Build result; stripIfInteger drops an all-zero fraction ("5.00" → "5")
   const hasDecimalPart =
-    numStr.includes(".") || (decimalScale && fixedDecimalScale);
-  let result = beforeDecimal;
+    (numStr.includes(".") || fractionDigits.minimum > 0) &&
+    !(trailingZeroDisplay === "stripIfInteger" && !/[1-9]/.test(afterDecimal));
+  const result = toNumberParts(
+    beforeDecimal,
+    hasDecimalPart ? afterDecimal : undefined,
+    sep || "",
+    decimalSeparator
+  );
 
-  if (hasDecimalPart) {
-    result += decimalSeparator + afterDecimal;
-  }
+  // Add prefix/suffix and sign; negative zero ("-0.00") is shown unsigned
+  const isZero = !/[1-9]/.test(numStr);
 
-  // Add prefix/suffix and negation
-  if (addNegation) {
-    result = "-" + prefix + result + suffix;
-  } else {
-    result = prefix + result + suffix;
+  return applySignToParts(result, prefix, suffix, addNegation && !isZero, isZero, options);
+};
+
+/**
+ * Scientific / engineering parts of a signed decimal string: the mantissa
+ * goes through the usual precision options, then the exponent is appended
+ */
+const formatScientificToParts = (
+  numStr: string,
+  addNegation: boolean,
+  options: FormatCurrencyOptions
+): CurrencyPart[] => {
+  const { notation, exponentStyle = "E", prefix = "", suffix = "" } = options;
+  const step = notation === "engineering" ? 3 : 1;
+  const isZero = !/[1-9]/.test(numStr);
+
+  // Power of ten of the leading digit, floored to the notation's step
+  const [integer, fraction = ""] = normalizeDecimal(numStr).replace("-", "").split(".");
+  const magnitude = isZero
+    ? 0
+    : integer !== "0"
+      ? integer.length - 1
+      : -(fraction.length - fraction.replace(/^0+/, "").length + 1);
+  let exponent = Math.floor(magnitude / step) * step;
+
+  const formatMantissa = (): CurrencyPart[] =>
+    formatCurrencyToParts(shiftDecimal(numStr, -exponent), {
+      ...options,
+      notation: "standard",
+      prefix: "",
+      suffix: "",
+      thousandSeparator: false,
+      roundingIncrement: undefined,
+      negativeStyle: "minus",
+      signDisplay: "auto",
+      signPosition: "start",
+    }).filter((part) => part.type !== "sign");
+
+  let mantissa = formatMantissa();
+
+  // Rounding can carry into the next power: 9.996 → "10.00E0" → "1.00E1"
+  const integerDigits = mantissa
+    .filter((part) => part.type === "integer")
+    .map((part) => part.value)
+    .join("");
+  if (integerDigits.length > step) {
+    exponent += step;
+    mantissa = formatMantissa();
   }
 
-  return result;
+  return applySignToParts(
+    [...mantissa, ...toExponentParts(exponent, exponentStyle)],
+    prefix,
+    suffix,
+    addNegation && !isZero,
+    isZero,
+    options
+  );
 };
 
 /**
- * Parse a formatted currency string back to numeric values
+ * Format a number/string to currency format
  * Standalone utility function that doesn't require rendering a component
+ *
+ * Accepts numbers, numeric strings, bigints and Decimal-like objects
+ * (anything with a numeric `toString()`); all rounding is done on the
+ * decimal string so values beyond 15 significant digits stay exact.
  */
-export const parseCurrency = (
+export const formatCurrency = (
+  value: DecimalInput | null | undefined,
+  options: FormatCurrencyOptions = {}
+): string => {
+  return joinParts(formatCurrencyToParts(value, options));
+};
+
+const parseCurrencyLenient = (
   formattedValue: string | null | undefined,
-  options: ParseCurrencyOptions = {}
-): { value: string; floatValue: number; formattedValue: string } => {
+  options: ParseCurrencyOptions
+): ParseCurrencyResult => {
   const {
     decimalSeparator = ".",
     thousandSeparator = ",",
     prefix = "",
     suffix = "",
+    notation = "standard",
   } = options;
 
   if (
@@ -305,23 +1371,18 @@ export const parseCurrency = (
     return { value: "", floatValue: NaN, formattedValue: "" };
   }
 
-  let value = formattedValue;
-
-  // Handle negation
-  const isNegative = value[0] === "-";
-  if (isNegative) {
-    value = value.substring(1);
-  }
+  // Handle negation: -x, (x), x-, x CR / x DR; native digits read as ASCII
+  const outer = splitNegation(normalizeDigits(stripBidiMarks(formattedValue)).trim());
 
-  // Remove prefix
-  if (prefix && value.startsWith(prefix)) {
-    value = value.substring(prefix.length);
-  }
+  // Remove prefix/suffix and a sign placed next to them ($-5, 5- €)
+  const inner = removeAffixesAndSign(outer.body, prefix, suffix);
+  const isNegative = outer.negative || inner.negative;
 
-  // Remove suffix
-  if (suffix && value.endsWith(suffix)) {
-    value = value.substring(0, value.length - suffix.length);
-  }
+  // Scientific / engineering exponent ("1.23E6", "1.23×10⁶"), only when the
+  // notation writes one: a stray "e" typed into an input must not scale it
+  const [mantissa, exponent] =
+    notation === "standard" ? [inner.value, 0] : splitExponent(inner.value);
+  let value = mantissa;
 
   // Remove thousand separator
   const tSep = typeof thousandSeparator === "boolean" ? "," : thousandSeparator;
@@ -337,18 +1398,387 @@ export const parseCurrency = (
   // Remove any remaining non-numeric characters except decimal and minus
   value = value.replace(/[^\d.]/g, "");
 
-  // Add negation back
-  if (isNegative) {
+  if (exponent !== 0 && /\d/.test(value)) {
+    value = shiftDecimal(value, exponent);
+  }
+
+  // Add negation back (negative zero stays unsigned)
+  if (isNegative && /[1-9]/.test(value)) {
     value = "-" + value;
   }
 
   return {
     value,
-    floatValue: parseFloat(value) || NaN,
+    floatValue: decimalToNumber(value),
     formattedValue,
   };
 };
 
+/**
+ * Check digit-group lengths (most significant first) against `spacing`;
+ * returns the index of the first bad group, or -1
+ */
+const findInvalidGroup = (lengths: number[], spacing: ThousandSpacing): number => {
+  const size = spacing === "2" ? 2 : spacing === "4" ? 4 : 3;
+  const last = lengths.length - 1;
+
+  for (let i = last; i >= 0; i--) {
+    const length = lengths[i];
+    const expected = spacing === "2s" ? (i === last ? 3 : 2) : size;
+    const valid = i === 0 ? length >= 1 && length <= expected : length === expected;
+    if (!valid) return i;
+  }
+  return -1;
+};
+
+/**
+ * Validate a formatted amount against the exact format options,
+ * reporting every problem with its position
+ */
+const validateCurrency = (
+  formattedValue: string,
+  options: ParseCurrencyOptions
+): ParseError[] => {
+  const {
+    decimalSeparator = ".",
+    thousandSeparator = ",",
+    thousandSpacing = "3",
+    prefix = "",
+    suffix = "",
+    decimalScale,
+    notation = "standard",
+  } = options;
+  const tSep = thousandSeparator === true ? "," : thousandSeparator || "";
+  const errors: ParseError[] = [];
+  const addError = (code: ParseErrorCode, index: number, message: string) => {
+    errors.push({ code, index, message });
+  };
+
+  const trimmed = formattedValue.trim();
+  let start = formattedValue.indexOf(trimmed);
+  let end = start + trimmed.length;
+
+  if (!trimmed) {
+    addError("empty", 0, "Value is empty");
+    return errors;
+  }
+
+  // Outer negation markers: -x, (x), x-, x CR / x DR
+  const outer = splitNegation(trimmed);
+  const opened = outer.leading === "(";
+  const closed = outer.trailing[0] === ")";
+  if (opened !== closed) {
+    addError(
+      "sign",
+      opened ? start : end - outer.trailing.length,
+      "Unbalanced parentheses"
+    );
+  }
+  let signs =
+    (outer.leading ? 1 : 0) +
+    (/^[-+]/.test(outer.trailing) ? 1 : 0) +
+    (/\b(CR|DR)$/i.test(outer.trailing) ? 1 : 0);
+  if (signs > 1) {
+    addError("sign", end - outer.trailing.length, "Amount has more than one sign");
+  }
+  start += outer.leading.length;
+  end -= outer.trailing.length;
+
+  // A sign may also sit right inside the prefix/suffix ($-5, 5- €)
+  const takeSign = (atEnd: boolean): void => {
+    const index = atEnd ? end - 1 : start;
+    const char = formattedValue[index];
+    if (start < end && (char === "-" || char === "+")) {
+      if (++signs > 1) addError("sign", index, "Amount has more than one sign");
+      if (atEnd) end--;
+      else start++;
+    }
+  };
+
+  takeSign(false);
+  if (prefix) {
+    if (formattedValue.startsWith(prefix, start)) {
+      start += prefix.length;
+    } else {
+      addError("prefix", start, `Expected prefix "${prefix}" at the start`);
+    }
+  }
+  takeSign(false);
+
+  takeSign(true);
+  if (suffix) {
+    if (end - suffix.length >= start && formattedValue.endsWith(suffix, end)) {
+      end -= suffix.length;
+    } else {
+      addError("suffix", end, `Expected suffix "${suffix}" at the end`);
+    }
+  }
+  takeSign(true);
+
+  // Exponent of scientific / engineering notation ("1.23E6")
+  if (notation !== "standard") {
+    const match = formattedValue.substring(start, end).match(EXPONENT_PATTERN);
+    if (match) end -= match[0].length;
+  }
+
+  // Scan the amount itself
+  const groupStarts: number[] = [start];
+  let decimalIndex = -1;
+  let hasDigit = false;
+
+  for (let i = start; i < end; i++) {
+    const char = formattedValue[i];
+
+    if (char >= "0" && char <= "9") {
+      hasDigit = true;
+    } else if (decimalSeparator && formattedValue.startsWith(decimalSeparator, i)) {
+      if (decimalIndex !== -1) {
+        addError("multipleDecimalSeparators", i, "Amount has more than one decimal separator");
+      } else {
+        decimalIndex = i;
+      }
+      i += decimalSeparator.length - 1;
+    } else if (tSep && formattedValue.startsWith(tSep, i)) {
+      if (decimalIndex !== -1) {
+        addError("grouping", i, "Group separator after the decimal separator");
+      } else {
+        groupStarts.push(i + tSep.length);
+      }
+      i += tSep.length - 1;
+    } else if (prefix && formattedValue.startsWith(prefix, i)) {
+      addError("prefix", i, `Prefix "${prefix}" must come before the amount`);
+      i += prefix.length - 1;
+    } else if (suffix && formattedValue.startsWith(suffix, i)) {
+      addError("suffix", i, `Suffix "${suffix}" must come after the amount`);
+      i += suffix.length - 1;
+    } else if (char === "-" || char === "+") {
+      addError("sign", i, "Sign must be at the start or end of the amount");
+    } else {
+      addError("invalidCharacter", i, `Unexpected character "${char}"`);
+    }
+  }
+
+  if (!hasDigit) {
+    addError("noDigits", start, "Amount has no digits");
+    return errors;
+  }
+
+  // Grouping positions per thousandSpacing
+  if (groupStarts.length > 1) {
+    const integerEnd = decimalIndex === -1 ? end : decimalIndex;
+    const lengths = groupStarts.map(
+      (groupStart, i) =>
+        (i + 1 < groupStarts.length ? groupStarts[i + 1] - tSep.length : integerEnd) -
+        groupStart
+    );
+    const badGroup = findInvalidGroup(lengths, thousandSpacing);
+    if (badGroup !== -1) {
+      addError(
+        "grouping",
+        groupStarts[Math.max(badGroup, 1)] - tSep.length,
+        `Digit groups do not match thousandSpacing "${thousandSpacing}"`
+      );
+    }
+  }
+
+  // Scale limit
+  if (decimalScale !== undefined && decimalIndex !== -1) {
+    const fractionStart = decimalIndex + decimalSeparator.length;
+    if (end - fractionStart > decimalScale) {
+      addError(
+        "scale",
+        fractionStart + decimalScale,
+        `At most ${decimalScale} fraction digit(s) allowed`
+      );
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Parse a formatted currency string back to numeric values
+ * Standalone utility function that doesn't require rendering a component
+ *
+ * `value` is the lossless decimal string; `floatValue` is its (possibly
+ * rounded) JS number counterpart.
+ *
+ * With `strict: true` malformed input is rejected instead of guessed:
+ *
+ * @example
+ * parseCurrency("12.34.56", { strict: true });
+ * // Output: { ok: false, errors: [{ code: "multipleDecimalSeparators", index: 5, ... }], ... }
+ *
+ * parseCurrency("$1,234.5", { prefix: "$", strict: true });
+ * // Output: { ok: true, value: "1234.5", floatValue: 1234.5, formattedValue: "$1,234.5" }
+ */
+export function parseCurrency(
+  formattedValue: string | null | undefined,
+  options: ParseCurrencyOptions & { strict: true }
+): StrictParseResult;
+export function parseCurrency(
+  formattedValue: string | null | undefined,
+  options?: ParseCurrencyOptions
+): ParseCurrencyResult;
+export function parseCurrency(
+  formattedValue: string | null | undefined,
+  options: ParseCurrencyOptions = {}
+): ParseCurrencyResult | StrictParseResult {
+  if (!options.strict) {
+    return parseCurrencyLenient(formattedValue, options);
+  }
+
+  // Error positions refer to the text without directional marks
+  const errors = validateCurrency(
+    normalizeDigits(stripBidiMarks(formattedValue || "")),
+    options
+  );
+  if (errors.length > 0) {
+    return { ok: false, errors, formattedValue: formattedValue || "" };
+  }
+
+  return { ok: true, ...parseCurrencyLenient(formattedValue, options) };
+}
+
+/** Characters accepted as decimal or group separators by parseAmountAuto */
+const SEPARATOR_PATTERN = /^[.,'\u2019\u02BC \u00A0\u202F\u2009\u066B\u066C]$/;
+
+/** Separators that can only ever group digits */
+const GROUP_ONLY_PATTERN = /^['\u2019\u02BC \u00A0\u202F\u2009\u066C]$/;
+
+/** Infer thousandSpacing from digit-group lengths (most significant first) */
+const detectSpacing = (lengths: number[]): ThousandSpacing | undefined => {
+  const spacings: ThousandSpacing[] = ["3", "2s", "4", "2"];
+  for (let i = 0; i < spacings.length; i++) {
+    if (findInvalidGroup(lengths, spacings[i]) === -1) return spacings[i];
+  }
+  return undefined;
+};
+
+/**
+ * Parse an amount whose locale is unknown, inferring the decimal and
+ * group separators from the string itself
+ *
+ * @example
+ * parseAmountAuto("1.234,56 €");
+ * // Output: { value: "1234.56", confidence: "high",
+ * //           options: { decimalSeparator: ",", thousandSeparator: ".", suffix: " €", ... } }
+ *
+ * parseAmountAuto("1'234.56");   // → { value: "1234.56", confidence: "high", ... }
+ * parseAmountAuto("1,234");      // → { value: "1234", confidence: "low", ... }
+ * parseAmountAuto("1,234", { locale: "de-DE" }); // → { value: "1.234", confidence: "medium", ... }
+ */
+export const parseAmountAuto = (
+  formattedValue: string | null | undefined,
+  options: ParseAmountAutoOptions = {}
+): ParseAmountAutoResult => {
+  const hint: FormatCurrencyOptions = options.locale ? getLocaleConfig(options.locale) : {};
+  const hintDecimal = options.decimalSeparator ?? hint.decimalSeparator ?? ".";
+  const hintThousand = options.thousandSeparator ?? hint.thousandSeparator ?? ",";
+  const hintGroup = hintThousand === true ? "," : hintThousand || "";
+
+  const input = normalizeDigits(stripBidiMarks(formattedValue || "")).trim();
+  const firstDigit = input.search(/\d/);
+  const lastDigit = input.length - 1 - input.split("").reverse().join("").search(/\d/);
+
+  const fail = (): ParseAmountAutoResult => ({
+    value: "",
+    floatValue: NaN,
+    formattedValue: formattedValue || "",
+    confidence: "low",
+    options: {
+      decimalSeparator: hintDecimal,
+      thousandSeparator: hintGroup,
+      thousandSpacing: hint.thousandSpacing || "3",
+      prefix: "",
+      suffix: "",
+    },
+  });
+
+  if (firstDigit === -1) return fail();
+
+  // Sign, parentheses and CR/DR live outside the digits
+  const leading = input.substring(0, firstDigit);
+  const trailing = input.substring(lastDigit + 1);
+  const negative = /[-(]/.test(leading) || /[-)]|\bCR$/i.test(trailing);
+  const prefix = leading.replace(/^\s*[-+(]\s*|[-+]\s*$/g, "");
+  const suffix = trailing.replace(/\s*\b[CD]R$/i, "").replace(/^[-+]\s*|\s*[-+)]\s*$/g, "");
+
+  // Split the digits on separators: "1.234,56" → ["1", "234", "56"] / [".", ","]
+  const core = input.substring(firstDigit, lastDigit + 1);
+  const digitRuns = core.split(/\D/);
+  const separators = core.replace(/\d/g, "").split("");
+  if (separators.some((sep) => !SEPARATOR_PATTERN.test(sep)) || digitRuns.some((run) => !run)) {
+    return fail();
+  }
+
+  const distinct = separators.filter((sep, i) => separators.indexOf(sep) === i);
+  let decimalSeparator = "";
+  let groupSeparator = "";
+  let confidence: DetectionConfidence = "high";
+
+  if (distinct.length > 2) {
+    return fail();
+  } else if (distinct.length === 2) {
+    // The last separator is the decimal one and must appear only once
+    decimalSeparator = separators[separators.length - 1];
+    groupSeparator = distinct[0] === decimalSeparator ? distinct[1] : distinct[0];
+    if (separators.indexOf(decimalSeparator) !== separators.length - 1) return fail();
+  } else if (distinct.length === 1) {
+    const sep = distinct[0];
+    const fractionLength = digitRuns[digitRuns.length - 1].length;
+
+    if (separators.length > 1 || GROUP_ONLY_PATTERN.test(sep)) {
+      groupSeparator = sep;
+    } else if (fractionLength !== 3 || /^0+$/.test(digitRuns[0])) {
+      decimalSeparator = sep;
+    } else if (sep === hintDecimal && sep !== hintGroup) {
+      // "1,234" — only a hint can tell
+      decimalSeparator = sep;
+      confidence = options.locale || options.decimalSeparator ? "medium" : "low";
+    } else {
+      groupSeparator = sep;
+      confidence = options.locale || options.thousandSeparator ? "medium" : "low";
+    }
+  }
+
+  // Grouping check and spacing
+  const integerRuns = decimalSeparator ? digitRuns.slice(0, -1) : digitRuns;
+  let thousandSpacing: ThousandSpacing = hint.thousandSpacing || "3";
+  if (groupSeparator) {
+    const detected = detectSpacing(integerRuns.map((run) => run.length));
+    if (detected) {
+      thousandSpacing = detected;
+    } else {
+      confidence = "low";
+    }
+  }
+
+  let value = integerRuns.join("");
+  if (decimalSeparator) {
+    value += "." + digitRuns[digitRuns.length - 1];
+  }
+  if (negative && /[1-9]/.test(value)) {
+    value = "-" + value;
+  }
+
+  // Fill in whichever separator the string did not show from the hint
+  if (!decimalSeparator) {
+    decimalSeparator = hintDecimal !== groupSeparator ? hintDecimal : groupSeparator === "," ? "." : ",";
+  }
+  if (!groupSeparator) {
+    groupSeparator = hintGroup !== decimalSeparator ? hintGroup : decimalSeparator === "," ? "." : ",";
+  }
+
+  return {
+    value,
+    floatValue: decimalToNumber(value),
+    formattedValue: formattedValue || "",
+    confidence,
+    options: { decimalSeparator, thousandSeparator: groupSeparator, thousandSpacing, prefix, suffix },
+  };
+};
+
 /**
  * Default compact display labels (English)
  */
@@ -359,6 +1789,54 @@ export const defaultCompactDisplay: CompactDisplayOptions = {
   trillion: "T",
 };
 
+/** Label table for compactDisplay; "short" / "long" are read from Intl for `locale` */
+const resolveCompactDisplay = (
+  compactDisplay: CompactDisplayOptions | CompactDisplayStyle = defaultCompactDisplay,
+  locale?: string
+): CompactDisplayOptions => {
+  return typeof compactDisplay === "string"
+    ? getCompactLabels(locale, compactDisplay)
+    : compactDisplay;
+};
+
+/** Label of a scale for the (rounded, unsigned) amount shown before it */
+const selectCompactLabel = (
+  scale: CompactScale,
+  amount: string,
+  locale?: string
+): string => {
+  if (!scale.plurals || typeof Intl === "undefined" || !Intl.PluralRules) {
+    return scale.label;
+  }
+  const category = new Intl.PluralRules(locale).select(parseFloat(amount));
+  return scale.plurals[category] ?? scale.label;
+};
+
+/** Pad a decimal string with trailing zeros to `minimum` fraction digits */
+const padFraction = (numStr: string, minimum = 0): string => {
+  const [integer, fraction = ""] = numStr.split(".");
+  return fraction.length >= minimum ? numStr : `${integer}.${fraction.padEnd(minimum, "0")}`;
+};
+
+/**
+ * Scale table for compactDisplay, largest first: its `scales`, or the
+ * thousand/million/billion/trillion labels
+ */
+const resolveCompactScales = (
+  compactDisplay: CompactDisplayOptions = defaultCompactDisplay
+): CompactScale[] => {
+  const scales =
+    compactDisplay.scales && compactDisplay.scales.length > 0
+      ? compactDisplay.scales
+      : [
+          { exponent: 3, label: compactDisplay.thousand || "K" },
+          { exponent: 6, label: compactDisplay.million || "M" },
+          { exponent: 9, label: compactDisplay.billion || "B" },
+          { exponent: 12, label: compactDisplay.trillion || "T" },
+        ];
+  return scales.slice().sort((a, b) => b.exponent - a.exponent);
+};
+
 /**
  * Format a number in compact notation (1K, 1M, 1B, etc.)
  * Useful for displaying large numbers in a readable format
@@ -377,55 +1855,125 @@ export const defaultCompactDisplay: CompactDisplayOptions = {
  * // Output: "1.5 triệu ₫"
  */
 export const formatCompact = (
-  value: string | number | null | undefined,
+  value: DecimalInput | null | undefined,
   options: FormatCompactOptions = {}
 ): string => {
+  return joinParts(formatCompactToParts(value, options));
+};
+
+/**
+ * Format a number in compact notation as typed segments; the scale label
+ * is a "compact" part and any space before it a "literal" part
+ *
+ * @example
+ * formatCompactToParts(1500000, { compactDisplay: { million: " triệu" } });
+ * // Output: [
+ * //   { type: "integer", value: "1" }, { type: "decimal", value: "." },
+ * //   { type: "fraction", value: "5" }, { type: "literal", value: " " },
+ * //   { type: "compact", value: "triệu" }
+ * // ]
+ */
+export const formatCompactToParts = (
+  value: DecimalInput | null | undefined,
+  options: FormatCompactOptions = {}
+): CurrencyPart[] => {
   const {
-    compactDisplay = defaultCompactDisplay,
-    compactThreshold = 1000,
+    compactDisplay: compactDisplayOption,
+    locale,
+    compactThreshold,
     prefix = "",
     suffix = "",
     decimalScale = 2,
     decimalSeparator = ".",
     allowNegative = true,
+    roundingMode = "halfUp",
+    numberingSystem,
+    bidi = false,
   } = options;
 
   if (value === null || value === undefined || value === "") {
-    return "";
+    return [];
   }
 
-  let num = typeof value === "number" ? value : parseFloat(value.toString().replace(/[^\d.-]/g, ""));
+  if (numberingSystem && numberingSystem !== "latn") {
+    return toNativeDigitParts(
+      formatCompactToParts(value, { ...options, numberingSystem: "latn" }),
+      numberingSystem
+    );
+  }
 
-  if (isNaN(num)) {
-    return "";
+  if (bidi) {
+    return toBidiParts(formatCompactToParts(value, { ...options, bidi: false }), bidi);
   }
 
-  // Handle negation
-  const isNegative = num < 0;
-  if (isNegative) {
-    num = Math.abs(num);
+  const numStr =
+    typeof value === "string"
+      ? toDecimalString(normalizeDigits(value).replace(/[^\d.eE+-]/g, ""))
+      : toDecimalString(value);
+
+  if (numStr === "") {
+    return [];
   }
+
+  // Handle negation
+  const isNegative = numStr[0] === "-";
+  const absolute = isNegative ? numStr.substring(1) : numStr;
   const addNegation = isNegative && allowNegative;
 
-  // Determine the scale
-  let scaled: number;
-  let compactSuffix: string;
-
-  if (num >= 1e12) {
-    scaled = num / 1e12;
-    compactSuffix = compactDisplay.trillion || "T";
-  } else if (num >= 1e9) {
-    scaled = num / 1e9;
-    compactSuffix = compactDisplay.billion || "B";
-  } else if (num >= 1e6) {
-    scaled = num / 1e6;
-    compactSuffix = compactDisplay.million || "M";
-  } else if (num >= compactThreshold) {
-    scaled = num / 1e3;
-    compactSuffix = compactDisplay.thousand || "K";
-  } else {
+  // Determine the scale; the threshold only gates the smallest one
+  const compactDisplay = resolveCompactDisplay(compactDisplayOption, locale);
+  const scales = resolveCompactScales(compactDisplay);
+  const smallest = scales[scales.length - 1];
+  const threshold =
+    compactThreshold !== undefined
+      ? toDecimalString(compactThreshold)
+      : pow10(smallest.exponent).toString();
+  const pickScale = (amount: string): CompactScale | undefined => {
+    const step = scales.find(
+      (candidate) => compareDecimal(amount, pow10(candidate.exponent).toString()) >= 0
+    );
+    if (step && step !== smallest) return step;
+    return compareDecimal(amount, threshold) >= 0 ? smallest : undefined;
+  };
+
+  // Unsigned amount shown before the label, rounded with its sign so ceil/floor are directional
+  const roundScaled = (step?: CompactScale): string => {
+    const scaled = shiftDecimal(numStr, -(step ? step.exponent : 0));
+    const precision = resolvePrecision(scaled.replace("-", ""), options, decimalScale);
+    const rounded = usesSignificantDigits(precision)
+      ? roundToSignificant(
+          scaled,
+          precision.minimumSignificantDigits,
+          precision.maximumSignificantDigits,
+          roundingMode
+        )
+      : padFraction(
+          normalizeDecimal(
+            roundDecimal(
+              scaled,
+              options.maximumFractionDigits ?? precision.decimalScale ?? decimalScale,
+              roundingMode
+            )
+          ),
+          options.minimumFractionDigits
+        );
+    return rounded.replace("-", "");
+  };
+
+  let scale = pickScale(absolute);
+  let result = roundScaled(scale);
+
+  // Rounding can carry into the next scale: 999,999 → "1000K" → "1M"
+  for (;;) {
+    const next = pickScale(shiftDecimal(result, scale ? scale.exponent : 0));
+    if (!next || (scale && next.exponent <= scale.exponent)) break;
+    scale = next;
+    result = roundScaled(scale);
+  }
+
+  if (!scale) {
     // Below threshold, format normally
-    return formatCurrency(addNegation ? -num : num, {
+    return formatCurrencyToParts(addNegation ? "-" + absolute : absolute, {
       prefix,
       suffix,
       decimalScale,
@@ -434,27 +1982,38 @@ export const formatCompact = (
       thousandSeparator: options.thousandSeparator,
       thousandSpacing: options.thousandSpacing,
       fixedDecimalScale: options.fixedDecimalScale,
+      roundingMode,
+      roundingIncrement: options.roundingIncrement,
+      negativeStyle: options.negativeStyle,
+      signDisplay: options.signDisplay,
+      signPosition: options.signPosition,
+      minimumSignificantDigits: options.minimumSignificantDigits,
+      maximumSignificantDigits: options.maximumSignificantDigits,
+      adaptivePrecision: options.adaptivePrecision,
+      minimumFractionDigits: options.minimumFractionDigits,
+      maximumFractionDigits: options.maximumFractionDigits,
+      trailingZeroDisplay: options.trailingZeroDisplay,
     });
   }
 
-  // Format the scaled number
-  let result = scaled.toFixed(decimalScale);
-
-  // Remove trailing zeros after decimal
-  if (result.includes(".")) {
-    result = result.replace(/\.?0+$/, "");
-  }
-
-  // Replace decimal separator if needed
-  if (decimalSeparator !== ".") {
-    result = result.replace(".", decimalSeparator);
-  }
+  // Format the scaled number, dropping trailing zeros after decimal
+  const [integer, fraction] = result.split(".");
+  const compactSuffix = selectCompactLabel(scale, result, locale || compactDisplay.locale);
 
   // Build final result
-  if (addNegation) {
-    return "-" + prefix + result + compactSuffix + suffix;
-  }
-  return prefix + result + compactSuffix + suffix;
+  const isZero = !/[1-9]/.test(result);
+
+  return applySignToParts(
+    [
+      ...toNumberParts(integer, fraction, "", decimalSeparator),
+      ...toAffixParts(compactSuffix, "compact"),
+    ],
+    prefix,
+    suffix,
+    addNegation && !isZero,
+    isZero,
+    options
+  );
 };
 
 /**
@@ -470,14 +2029,16 @@ export const formatCompact = (
 export const parseCompact = (
   formattedValue: string | null | undefined,
   options: {
-    compactDisplay?: CompactDisplayOptions;
+    compactDisplay?: CompactDisplayOptions | CompactDisplayStyle;
+    locale?: string;
     prefix?: string;
     suffix?: string;
     decimalSeparator?: string;
   } = {}
 ): { value: string; floatValue: number; formattedValue: string } => {
   const {
-    compactDisplay = defaultCompactDisplay,
+    compactDisplay,
+    locale,
     prefix = "",
     suffix = "",
     decimalSeparator = ".",
@@ -487,37 +2048,34 @@ export const parseCompact = (
     return { value: "", floatValue: NaN, formattedValue: "" };
   }
 
-  let value = formattedValue;
-
-  // Handle negation
-  const isNegative = value.startsWith("-");
-  if (isNegative) {
-    value = value.substring(1);
-  }
-
-  // Remove prefix
-  if (prefix && value.startsWith(prefix)) {
-    value = value.substring(prefix.length);
-  }
-
-  // Remove suffix (before checking compact suffix)
-  if (suffix && value.endsWith(suffix)) {
-    value = value.substring(0, value.length - suffix.length);
-  }
-
-  // Detect and remove compact suffix, get multiplier
-  let multiplier = 1;
-  const compactSuffixes = [
-    { suffix: compactDisplay.trillion || "T", multiplier: 1e12 },
-    { suffix: compactDisplay.billion || "B", multiplier: 1e9 },
-    { suffix: compactDisplay.million || "M", multiplier: 1e6 },
-    { suffix: compactDisplay.thousand || "K", multiplier: 1e3 },
-  ];
+  // Handle negation: -x, (x), x-, x CR / x DR
+  const outer = splitNegation(normalizeDigits(stripBidiMarks(formattedValue)).trim());
+
+  // Remove prefix/suffix (before checking compact suffix) and a sign next to them
+  const inner = removeAffixesAndSign(outer.body, prefix, suffix);
+  const isNegative = outer.negative || inner.negative;
+  let value = inner.value;
+
+  // Detect and remove compact suffix (short, long or any plural form),
+  // get power of ten; longest label first so "万亿" wins over "亿"
+  let multiplierExponent = 0;
+  const compactSuffixes: { label: string; exponent: number }[] = [];
+  resolveCompactScales(resolveCompactDisplay(compactDisplay, locale)).forEach((scale) => {
+    const labels = [scale.label].concat(
+      Object.keys(scale.plurals || {}).map(
+        (category) => scale.plurals![category as Intl.LDMLPluralRule] || ""
+      )
+    );
+    labels.forEach((label) => compactSuffixes.push({ label, exponent: scale.exponent }));
+  });
+  compactSuffixes.sort((a, b) => b.label.trim().length - a.label.trim().length);
 
-  for (const { suffix: cs, multiplier: mult } of compactSuffixes) {
-    if (value.endsWith(cs)) {
+  for (const { label, exponent } of compactSuffixes) {
+    const cs = label.trim();
+    if (cs && value.trim().endsWith(cs)) {
+      value = value.trim();
       value = value.substring(0, value.length - cs.length);
-      multiplier = mult;
+      multiplierExponent = exponent;
       break;
     }
   }
@@ -527,13 +2085,15 @@ export const parseCompact = (
     value = value.replace(decimalSeparator, ".");
   }
 
-  // Parse the number
-  const num = parseFloat(value.trim()) * multiplier;
-  const finalValue = isNegative ? -num : num;
+  // Scale the number without going through floating point
+  const numStr = toDecimalString(value.trim());
+  const scaled = numStr === "" ? "" : shiftDecimal(numStr, multiplierExponent);
+  const finalValue =
+    isNegative && scaled !== "" ? normalizeDecimal("-" + scaled) : scaled;
 
   return {
-    value: isNaN(finalValue) ? "" : finalValue.toString(),
-    floatValue: finalValue,
+    value: finalValue,
+    floatValue: decimalToNumber(finalValue),
     formattedValue: formattedValue,
   };
 };
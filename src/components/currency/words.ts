@@ -0,0 +1,557 @@
+import {
+  DecimalInput,
+  RoundingMode,
+  decimalToNumber,
+  normalizeDecimal,
+  pow10,
+  roundDecimal,
+  toDecimalString,
+} from "./decimal";
+import { ParseCurrencyResult } from "./utils";
+import { CurrencyUnitNames, currencyDatabase, getCurrencyConfig } from "./locales";
+
+// Types
+/**
+ * How a language spells amounts. `integerToWords` receives a non-negative
+ * integer as a digit string so amounts beyond Number.MAX_SAFE_INTEGER work.
+ */
+export interface AmountInWordsRules {
+  /** Key into CurrencyInfo.unitNames ("en", "vi") */
+  language: string;
+  /** Spell a non-negative integer: "1234" → "one thousand two hundred thirty-four" */
+  integerToWords: (digits: string) => string;
+  /** Word joining the major and minor parts ("and") */
+  conjunction: string;
+  /** Word put before negative amounts ("minus") */
+  negativeWord: string;
+  /** Whether a count takes the plural unit name (default: anything but "1") */
+  isPlural?: (digits: string) => boolean;
+}
+
+/**
+ * How the minor part is written
+ * - fraction: "and 56/100" (cheque style)
+ * - words: "and fifty-six cents"
+ */
+export type MinorUnitStyle = "fraction" | "words";
+
+export interface FormatAmountInWordsOptions {
+  /** Currency code; unit names come from CurrencyInfo.unitNames */
+  currency: string;
+  /** Locale of the registered rules; falls back to the language ("en-GB" → "en") (default: "en") */
+  locale?: string;
+  /** Default: "fraction" */
+  minorStyle?: MinorUnitStyle;
+  /** Rounding to the currency's digits (default: "halfUp") */
+  roundingMode?: RoundingMode;
+}
+
+/**
+ * When 整 closes a Chinese capital amount
+ * - always: after every amount ("…柒分整")
+ * - standard: only after 元 or 角, never after 分 (payment settlement rules)
+ */
+export type ChineseCapitalSuffix = "always" | "standard";
+
+export interface FormatChineseCapitalOptions {
+  /** Text put before the amount (default: "人民币") */
+  prefix?: string;
+  /** Default: "always" */
+  wholeSuffix?: ChineseCapitalSuffix;
+  /** Rounding to 分 (default: "halfUp") */
+  roundingMode?: RoundingMode;
+}
+
+export interface ParseChineseCapitalOptions {
+  /** Text expected before the amount (default: "人民币") */
+  prefix?: string;
+}
+
+const stripLeadingZeros = (digits: string): string => digits.replace(/^0+(?=\d)/, "");
+
+/** Split a digit string into groups of `size` from the right */
+const groupDigits = (digits: string, size: number): string[] => {
+  const groups: string[] = [];
+  for (let end = digits.length; end > 0; end -= size) {
+    groups.unshift(digits.slice(Math.max(0, end - size), end));
+  }
+  return groups;
+};
+
+// English
+const EN_ONES = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine",
+  "ten", "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen",
+  "seventeen", "eighteen", "nineteen",
+];
+const EN_TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const EN_SCALES = [
+  "", "thousand", "million", "billion", "trillion", "quadrillion", "quintillion",
+  "sextillion", "septillion", "octillion", "nonillion", "decillion",
+];
+
+/** 1–999 without "and": "two hundred thirty-four" */
+const englishBelowThousand = (value: number): string => {
+  const words: string[] = [];
+  const hundreds = Math.floor(value / 100);
+  const rest = value % 100;
+
+  if (hundreds > 0) {
+    words.push(EN_ONES[hundreds] + " hundred");
+  }
+  if (rest >= 20) {
+    words.push(EN_TENS[Math.floor(rest / 10)] + (rest % 10 ? "-" + EN_ONES[rest % 10] : ""));
+  } else if (rest > 0) {
+    words.push(EN_ONES[rest]);
+  }
+  return words.join(" ");
+};
+
+const englishIntegerToWords = (digits: string): string => {
+  const groups = groupDigits(stripLeadingZeros(digits), 3);
+  if (groups.length > EN_SCALES.length) {
+    throw new Error(`Amount too large to spell: "${digits}"`);
+  }
+
+  const words: string[] = [];
+  groups.forEach((group, index) => {
+    const value = Number(group);
+    if (value === 0) return;
+    const scale = EN_SCALES[groups.length - 1 - index];
+    words.push(englishBelowThousand(value) + (scale ? " " + scale : ""));
+  });
+  return words.length ? words.join(" ") : EN_ONES[0];
+};
+
+/**
+ * Indian English: last three digits, then pairs for thousand and lakh,
+ * and everything above spelled again in crore ("one lakh crore")
+ */
+const indianIntegerToWords = (digits: string): string => {
+  const trimmed = stripLeadingZeros(digits);
+  if (trimmed.length <= 3) {
+    return Number(trimmed) === 0 ? EN_ONES[0] : englishBelowThousand(Number(trimmed));
+  }
+
+  const words: string[] = [];
+  const crore = trimmed.slice(0, -7);
+  const lakh = Number(trimmed.slice(-7, -5));
+  const thousand = Number(trimmed.slice(-5, -3));
+  const rest = Number(trimmed.slice(-3));
+
+  if (crore && Number(crore) !== 0) {
+    words.push(indianIntegerToWords(crore) + " crore");
+  }
+  if (lakh) words.push(englishBelowThousand(lakh) + " lakh");
+  if (thousand) words.push(englishBelowThousand(thousand) + " thousand");
+  if (rest) words.push(englishBelowThousand(rest));
+  return words.join(" ");
+};
+
+// Vietnamese
+const VI_DIGITS = ["không", "một", "hai", "ba", "bốn", "năm", "sáu", "bảy", "tám", "chín"];
+const VI_SCALES = ["", "nghìn", "triệu"];
+
+/**
+ * One group of three digits. Groups after the first are read in full
+ * ("không trăm lẻ năm") so 1 000 005 is not mistaken for 1 005.
+ */
+const vietnameseGroup = (group: string, full: boolean): string => {
+  const value = Number(group);
+  const hundreds = Math.floor(value / 100);
+  const tens = Math.floor(value / 10) % 10;
+  const units = value % 10;
+  const words: string[] = [];
+
+  if (full || hundreds > 0) {
+    words.push(VI_DIGITS[hundreds] + " trăm");
+  }
+
+  if (tens === 0) {
+    if (units > 0) {
+      if (words.length) words.push("lẻ");
+      words.push(VI_DIGITS[units]);
+    }
+  } else {
+    words.push(tens === 1 ? "mười" : VI_DIGITS[tens] + " mươi");
+    if (units === 1) {
+      words.push(tens === 1 ? "một" : "mốt");
+    } else if (units === 5) {
+      words.push("lăm");
+    } else if (units > 0) {
+      words.push(VI_DIGITS[units]);
+    }
+  }
+  return words.join(" ");
+};
+
+/** Scale names repeat "tỷ": 10^12 is "nghìn tỷ", 10^18 is "tỷ tỷ" */
+const vietnameseScale = (index: number): string => {
+  const words = [VI_SCALES[index % 3]];
+  for (let i = 0; i < Math.floor(index / 3); i++) {
+    words.push("tỷ");
+  }
+  return words.filter(Boolean).join(" ");
+};
+
+const vietnameseIntegerToWords = (digits: string): string => {
+  const groups = groupDigits(stripLeadingZeros(digits), 3);
+  const words: string[] = [];
+
+  groups.forEach((group, index) => {
+    if (Number(group) === 0) return;
+    const scale = vietnameseScale(groups.length - 1 - index);
+    words.push(vietnameseGroup(group, words.length > 0) + (scale ? " " + scale : ""));
+  });
+  return words.length ? words.join(" ") : VI_DIGITS[0];
+};
+
+/** Built-in rules; add more with registerAmountInWordsLocale */
+export const amountInWordsPresets: Record<string, AmountInWordsRules> = {
+  en: {
+    language: "en",
+    integerToWords: englishIntegerToWords,
+    conjunction: "and",
+    negativeWord: "minus",
+  },
+  "en-IN": {
+    language: "en",
+    integerToWords: indianIntegerToWords,
+    conjunction: "and",
+    negativeWord: "minus",
+  },
+  vi: {
+    language: "vi",
+    integerToWords: vietnameseIntegerToWords,
+    conjunction: "và",
+    negativeWord: "âm",
+    isPlural: () => false,
+  },
+};
+
+// Custom registry for user-defined languages
+const customWordsRules: Record<string, AmountInWordsRules> = {};
+
+/**
+ * Register amount-in-words rules for a locale or language
+ *
+ * @example
+ * registerAmountInWordsLocale("id", {
+ *   language: "id",
+ *   integerToWords: spellIndonesian,
+ *   conjunction: "dan",
+ *   negativeWord: "minus",
+ * });
+ */
+export const registerAmountInWordsLocale = (name: string, rules: AmountInWordsRules): void => {
+  customWordsRules[name] = rules;
+};
+
+/**
+ * Unregister custom amount-in-words rules
+ */
+export const unregisterAmountInWordsLocale = (name: string): void => {
+  delete customWordsRules[name];
+};
+
+/**
+ * Get the amount-in-words rules of a locale
+ * Priority: custom > presets, for the full locale then its language
+ */
+export const getAmountInWordsRules = (locale: string): AmountInWordsRules => {
+  const language = locale.split("-")[0];
+  const rules =
+    customWordsRules[locale] ||
+    amountInWordsPresets[locale] ||
+    customWordsRules[language] ||
+    amountInWordsPresets[language];
+
+  if (!rules) {
+    throw new Error(`No amount-in-words rules for locale "${locale}"`);
+  }
+  return rules;
+};
+
+const unitName = (
+  names: CurrencyUnitNames | undefined,
+  fallback: string,
+  unit: "major" | "minor",
+  plural: boolean
+): string => {
+  if (!names) return fallback;
+  const singular = unit === "major" ? names.major : names.minor || fallback;
+  const pluralName = unit === "major" ? names.majorPlural : names.minorPlural;
+  return plural ? pluralName || singular : singular;
+};
+
+/**
+ * Spell an amount for cheques and payment vouchers
+ * Rounds to the currency's digits; unit names come from
+ * CurrencyInfo.unitNames in the rules' language (the currency's name when
+ * missing).
+ *
+ * @example
+ * formatAmountInWords(1234.56, { currency: "USD" });
+ * // → "One thousand two hundred thirty-four dollars and 56/100"
+ *
+ * formatAmountInWords(1234.56, { currency: "USD", minorStyle: "words" });
+ * // → "One thousand two hundred thirty-four dollars and fifty-six cents"
+ *
+ * formatAmountInWords(1200000, { currency: "VND", locale: "vi" });
+ * // → "Một triệu hai trăm nghìn đồng"
+ *
+ * formatAmountInWords(12345678, { currency: "INR", locale: "en-IN" });
+ * // → "One crore twenty-three lakh forty-five thousand six hundred seventy-eight rupees and 00/100"
+ */
+export const formatAmountInWords = (
+  value: DecimalInput | null | undefined,
+  options: FormatAmountInWordsOptions
+): string => {
+  const { currency, locale = "en", minorStyle = "fraction", roundingMode = "halfUp" } = options;
+
+  if (value === null || value === undefined || value === "") {
+    return "";
+  }
+
+  const numStr = toDecimalString(value);
+  if (numStr === "") {
+    return "";
+  }
+
+  const rules = getAmountInWordsRules(locale);
+  const code = currency.toUpperCase();
+  const info = currencyDatabase[code];
+  const names = info?.unitNames?.[rules.language];
+  const digits = getCurrencyConfig(code).decimalScale ?? 2;
+  const isPlural = rules.isPlural || ((count: string) => count !== "1");
+
+  const rounded = roundDecimal(numStr, digits, roundingMode);
+  const negative = rounded[0] === "-";
+  const [integer, fraction = ""] = rounded.replace("-", "").split(".");
+  const major = stripLeadingZeros(integer);
+  const minor = stripLeadingZeros(fraction || "0");
+
+  const words: string[] = [];
+  if (negative && /[1-9]/.test(rounded)) {
+    words.push(rules.negativeWord);
+  }
+  words.push(
+    rules.integerToWords(major),
+    unitName(names, info?.name || code, "major", isPlural(major))
+  );
+
+  if (digits > 0) {
+    if (minorStyle === "fraction") {
+      words.push(rules.conjunction, `${fraction}/1${"0".repeat(digits)}`);
+    } else if (minor !== "0") {
+      words.push(
+        rules.conjunction,
+        rules.integerToWords(minor),
+        unitName(names, "", "minor", isPlural(minor))
+      );
+    }
+  }
+
+  const text = words.filter(Boolean).join(" ");
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+// Chinese financial capital numerals (大写)
+const CAPITAL_DIGITS = ["零", "壹", "贰", "叁", "肆", "伍", "陆", "柒", "捌", "玖"];
+const CAPITAL_UNITS = ["", "拾", "佰", "仟"];
+
+/** Section names per four digits: 万, 亿, 万亿, 亿亿 … */
+const capitalSection = (index: number): string => {
+  let name = index % 2 === 1 ? "万" : "";
+  for (let i = 0; i < Math.floor(index / 2); i++) {
+    name += "亿";
+  }
+  return name;
+};
+
+/**
+ * Integer part with zero elision: runs of zeros inside the number become
+ * one 零, trailing zeros of a section are dropped (壹拾万柒仟), and a
+ * section below 仟 after a non-zero one starts with 零 (壹亿零壹, 壹万零伍佰)
+ */
+const capitalInteger = (digits: string): string => {
+  const groups = groupDigits(stripLeadingZeros(digits), 4);
+  let result = "";
+  let pendingZero = false;
+
+  groups.forEach((group, index) => {
+    const section = group.padStart(4, "0");
+
+    for (let i = 0; i < 4; i++) {
+      const digit = Number(section[i]);
+      if (digit === 0) {
+        pendingZero = result !== "";
+        continue;
+      }
+      if (pendingZero) {
+        result += CAPITAL_DIGITS[0];
+        pendingZero = false;
+      }
+      result += CAPITAL_DIGITS[digit] + CAPITAL_UNITS[3 - i];
+    }
+
+    if (Number(section) !== 0) {
+      result += capitalSection(groups.length - 1 - index);
+      pendingZero = false;
+    }
+  });
+  return result;
+};
+
+/**
+ * Format an amount in Chinese financial capital numerals (大写) for fapiao
+ * and bank slips, rounded to 分
+ *
+ * @example
+ * formatChineseCapital(12345.67);          // → "人民币壹万贰仟叁佰肆拾伍元陆角柒分整"
+ * formatChineseCapital(100000001);         // → "人民币壹亿零壹元整"
+ * formatChineseCapital(325.04);            // → "人民币叁佰贰拾伍元零肆分整"
+ * formatChineseCapital(0.5, { prefix: "" }); // → "伍角整"
+ * formatChineseCapital(12345.67, { wholeSuffix: "standard" }); // → "人民币壹万贰仟叁佰肆拾伍元陆角柒分"
+ */
+export const formatChineseCapital = (
+  value: DecimalInput | null | undefined,
+  options: FormatChineseCapitalOptions = {}
+): string => {
+  const { prefix = "人民币", wholeSuffix = "always", roundingMode = "halfUp" } = options;
+
+  if (value === null || value === undefined || value === "") {
+    return "";
+  }
+
+  const numStr = toDecimalString(value);
+  if (numStr === "") {
+    return "";
+  }
+
+  const rounded = roundDecimal(numStr, 2, roundingMode);
+  const negative = rounded[0] === "-" && /[1-9]/.test(rounded);
+  const [integer, fraction] = rounded.replace("-", "").split(".");
+  const jiao = Number(fraction[0]);
+  const fen = Number(fraction[1]);
+  const hasInteger = /[1-9]/.test(integer);
+
+  let result = hasInteger ? capitalInteger(integer) + "元" : "";
+  if (jiao > 0) {
+    result += CAPITAL_DIGITS[jiao] + "角";
+  }
+  if (fen > 0) {
+    // 元零肆分: the zero 角 is written when 分 follows an integer part
+    result += (jiao === 0 && hasInteger ? CAPITAL_DIGITS[0] : "") + CAPITAL_DIGITS[fen] + "分";
+  }
+  if (result === "") {
+    result = CAPITAL_DIGITS[0] + "元";
+  }
+  if (wholeSuffix === "always" || fen === 0) {
+    result += "整";
+  }
+
+  return prefix + (negative ? "负" : "") + result;
+};
+
+// Lowercase numerals and traditional forms are accepted when parsing
+const CAPITAL_DIGIT_VALUES: Record<string, number> = {
+  零: 0, 〇: 0, 壹: 1, 一: 1, 贰: 2, 貳: 2, 二: 2, 两: 2, 叁: 3, 參: 3, 三: 3,
+  肆: 4, 四: 4, 伍: 5, 五: 5, 陆: 6, 陸: 6, 六: 6, 柒: 7, 七: 7, 捌: 8, 八: 8,
+  玖: 9, 九: 9,
+};
+const CAPITAL_UNIT_VALUES: Record<string, number> = {
+  拾: 1, 十: 1, 佰: 2, 百: 2, 仟: 3, 千: 3,
+};
+
+/**
+ * Parse Chinese capital numerals back to a decimal string
+ * Returns an empty value when the text is not a valid amount.
+ *
+ * @example
+ * parseChineseCapital("人民币壹万贰仟叁佰肆拾伍元陆角柒分整");
+ * // → { value: "12345.67", floatValue: 12345.67, formattedValue: "人民币壹万贰仟叁佰肆拾伍元陆角柒分整" }
+ *
+ * parseChineseCapital("壹亿零壹圆正", { prefix: "" }); // → { value: "100000001", ... }
+ */
+export const parseChineseCapital = (
+  formattedValue: string | null | undefined,
+  options: ParseChineseCapitalOptions = {}
+): ParseCurrencyResult => {
+  const { prefix = "人民币" } = options;
+  const invalid = { value: "", floatValue: NaN, formattedValue: formattedValue || "" };
+
+  if (!formattedValue) {
+    return invalid;
+  }
+
+  let text = formattedValue.replace(/\s+/g, "");
+  if (prefix && text.indexOf(prefix) === 0) {
+    text = text.slice(prefix.length);
+  }
+  const negative = text[0] === "负";
+  text = text.replace(/^负/, "").replace(/[整正]$/, "");
+
+  let total = BigInt(0);
+  let section = BigInt(0);
+  let digit = -1;
+  let jiao = 0;
+  let fen = 0;
+  let seenYuan = false;
+  let seenDigit = false;
+  // 壹万伍 is shorthand for 15000, so a digit right after 佰/仟/万/亿 must carry a unit
+  let needsUnit = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char in CAPITAL_DIGIT_VALUES) {
+      digit = CAPITAL_DIGIT_VALUES[char];
+      seenDigit = true;
+      needsUnit = i > 0 && /[佰百仟千万萬亿億]/.test(text[i - 1]);
+    } else if (seenYuan && (char === "角" || char === "分")) {
+      if (digit < 0) return invalid;
+      if (char === "角") jiao = digit;
+      else fen = digit;
+      digit = -1;
+    } else if (seenYuan) {
+      return invalid;
+    } else if (char in CAPITAL_UNIT_VALUES) {
+      // A bare 拾 counts as 壹拾 ("拾元")
+      if (digit < 0 && char !== "拾" && char !== "十") return invalid;
+      seenDigit = true;
+      section += BigInt(digit < 0 ? 1 : digit) * pow10(CAPITAL_UNIT_VALUES[char]);
+      digit = -1;
+    } else if (char === "万" || char === "萬") {
+      section = (section + BigInt(Math.max(digit, 0))) * pow10(4);
+      digit = -1;
+    } else if (char === "亿" || char === "億") {
+      total = (total + section + BigInt(Math.max(digit, 0))) * pow10(8);
+      section = BigInt(0);
+      digit = -1;
+    } else if (char === "元" || char === "圆") {
+      if (digit > 0 && needsUnit) return invalid;
+      total += section + BigInt(Math.max(digit, 0));
+      section = BigInt(0);
+      digit = -1;
+      seenYuan = true;
+    } else if (char === "角" || char === "分") {
+      // Amounts below one 元 ("伍角")
+      if (digit < 0 || total + section > BigInt(0)) return invalid;
+      seenYuan = true;
+      i--;
+    } else {
+      return invalid;
+    }
+  }
+
+  if (!seenDigit || (digit > 0 && (seenYuan || needsUnit))) {
+    return invalid;
+  }
+  if (digit > 0) {
+    section += BigInt(digit);
+  }
+
+  const value = normalizeDecimal((negative ? "-" : "") + (total + section).toString() + "." + jiao + fen);
+  return { value, floatValue: decimalToNumber(value), formattedValue };
+};
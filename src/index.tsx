@@ -1,10 +1,20 @@
 import CurrencyFormat, {
   PatternFormat,
   formatCurrency,
+  formatCurrencyToParts,
   parseCurrency,
+  parseAmountAuto,
   formatCompact,
+  formatCompactToParts,
   parseCompact,
   defaultCompactDisplay,
+  defaultPrecisionSteps,
+  roundToSignificant,
+  numberingSystemZeros,
+  normalizeDigits,
+  toNativeDigits,
+  bidiMarks,
+  stripBidiMarks,
   useCurrencyFormat,
   useCurrencyInput,
   localePresets,
@@ -12,6 +22,7 @@ import CurrencyFormat, {
   getFormatOptionsFromLocale,
   detectLocaleFormat,
   getCompactLabels,
+  compactScaleSystems,
   createLocaleConfig,
   getAutoLocaleConfig,
   formatWithIntl,
@@ -19,6 +30,32 @@ import CurrencyFormat, {
   unregisterLocale,
   currencyDatabase,
   getCurrencyConfig,
+  currencySuccessions,
+  getCurrencySuccession,
+  createMoney,
+  createMoneyFromMinor,
+  allocate,
+  toMinorUnits,
+  fromMinorUnits,
+  getMinorUnitDigits,
+  createConverter,
+  createStaticRateProvider,
+  convertLegacyAmount,
+  formatPercent,
+  parsePercent,
+  percentUnitScale,
+  formatAmountInWords,
+  amountInWordsPresets,
+  getAmountInWordsRules,
+  registerAmountInWordsLocale,
+  unregisterAmountInWordsLocale,
+  formatChineseCapital,
+  parseChineseCapital,
+  iso4217,
+  iso4217Version,
+  iso4217Currencies,
+  withdrawnCurrencies,
+  findIso4217Currency,
 } from "./components/currency";
 
 export {
@@ -26,10 +63,22 @@ export {
   PatternFormat,
   // Utility functions
   formatCurrency,
+  formatCurrencyToParts,
   parseCurrency,
+  parseAmountAuto,
   formatCompact,
+  formatCompactToParts,
   parseCompact,
   defaultCompactDisplay,
+  defaultPrecisionSteps,
+  roundToSignificant,
+  // Native digits
+  numberingSystemZeros,
+  normalizeDigits,
+  toNativeDigits,
+  // Bidirectional text
+  bidiMarks,
+  stripBidiMarks,
   // Hooks
   useCurrencyFormat,
   useCurrencyInput,
@@ -40,6 +89,7 @@ export {
   // Dynamic locale detection (uses Intl.NumberFormat)
   detectLocaleFormat,
   getCompactLabels,
+  compactScaleSystems,
   createLocaleConfig,
   getAutoLocaleConfig,
   formatWithIntl,
@@ -49,6 +99,38 @@ export {
   // Currency database (ISO 4217)
   currencyDatabase,
   getCurrencyConfig,
+  // Redenominations and changeovers
+  currencySuccessions,
+  getCurrencySuccession,
+  // Money
+  createMoney,
+  createMoneyFromMinor,
+  allocate,
+  toMinorUnits,
+  fromMinorUnits,
+  getMinorUnitDigits,
+  // Exchange-rate conversion
+  createConverter,
+  createStaticRateProvider,
+  convertLegacyAmount,
+  // Percent, permille and basis points
+  formatPercent,
+  parsePercent,
+  percentUnitScale,
+  // Amount in words
+  formatAmountInWords,
+  amountInWordsPresets,
+  getAmountInWordsRules,
+  registerAmountInWordsLocale,
+  unregisterAmountInWordsLocale,
+  formatChineseCapital,
+  parseChineseCapital,
+  // ISO 4217 dataset
+  iso4217,
+  iso4217Version,
+  iso4217Currencies,
+  withdrawnCurrencies,
+  findIso4217Currency,
 };
 
 export default CurrencyFormat;
@@ -57,15 +139,37 @@ export type {
   CurrencyFormatProps,
   ThousandsGroupStyle,
   ValueObject,
+  ValueUnit,
   ThousandSpacing,
+  RoundingMode,
+  NegativeStyle,
+  SignDisplay,
+  SignPosition,
+  TrailingZeroDisplay,
+  Notation,
+  ExponentStyle,
+  NumberingSystem,
+  BidiMark,
+  CurrencyPart,
+  CurrencyPartType,
   FormatFunction,
   RemoveFormattingFunction,
   IsAllowedFunction,
   OnValueChangeFunction,
   RenderTextFunction,
   FormatCurrencyOptions,
+  PrecisionStep,
   ParseCurrencyOptions,
+  ParseCurrencyResult,
+  ParseErrorCode,
+  ParseError,
+  StrictParseResult,
+  ParseAmountAutoOptions,
+  ParseAmountAutoResult,
+  DetectionConfidence,
   CompactDisplayOptions,
+  CompactScale,
+  CompactDisplayStyle,
   FormatCompactOptions,
   UseCurrencyFormatOptions,
   UseCurrencyFormatReturn,
@@ -73,5 +177,32 @@ export type {
   UseCurrencyInputReturn,
   LocaleConfig,
   CurrencyInfo,
+  CurrencyDisplay,
+  CurrencyUnitNames,
+  CurrencyRulePeriod,
+  CurrencySuccession,
+  Money,
+  MoneyFormatOptions,
+  AllocateOptions,
+  RateQuote,
+  RateProvider,
+  StaticRateTable,
+  ConverterOptions,
+  ConvertOptions,
+  ConvertLegacyOptions,
+  ConversionResult,
+  Converter,
+  PercentUnit,
+  FormatPercentOptions,
+  ParsePercentOptions,
+  AmountInWordsRules,
+  MinorUnitStyle,
+  FormatAmountInWordsOptions,
+  ChineseCapitalSuffix,
+  FormatChineseCapitalOptions,
+  ParseChineseCapitalOptions,
+  Iso4217Currency,
+  CurrencyCode,
+  WithdrawnCurrencyCode,
   PatternFormatProps,
 } from "./components/currency";
\ No newline at end of file